@@ -0,0 +1,195 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DirectoryInfo, RemovalStats, isRemovable, isSubPath } from "./core";
+import { ConfigResolver, getConfiguration } from "./config";
+import {
+  FolderScan,
+  RemovalContext,
+  checkRemovalLimit,
+  keepSelectedRoots,
+  removeFromScans,
+  scanFolders,
+  selectedTargets,
+  silentProgress
+} from "./runner";
+import { toWorkspaceUri } from "./workspaceFs";
+
+// Overrides for a single run, on top of the settings of each workspace folder
+export interface RunOptions {
+  // Replaces the dryRun setting
+  dryRun?: boolean;
+  // Additional folder patterns to exclude, like --exclude on the command line
+  exclude?: string[];
+}
+
+export interface ScanOptions extends Pick<RunOptions, 'exclude'> {
+  token?: vscode.CancellationToken;
+}
+
+export interface RemoveOptions extends Pick<RunOptions, 'dryRun'> {
+  token?: vscode.CancellationToken;
+}
+
+// Empty folders found below a scanned folder
+export interface ScanResult {
+  uri: vscode.Uri;
+  // Empty directories the scan found, protected ones included, pass the result to remove()
+  directories: DirectoryInfo[];
+  // Folders a removal would remove, nested ones included
+  emptyFolders: vscode.Uri[];
+}
+
+// Run of any command, auto clean or scheduled cleanup, fired unless it was cancelled
+export interface CompletedRun {
+  targets: vscode.Uri[];
+  dryRun: boolean;
+  stats: RemovalStats;
+}
+
+// Arguments of the "Remove Empty Folders" command, e.g. from keybindings or task inputs
+export interface RemoveCommandArgs extends RunOptions {
+  // Folders to clean instead of the whole workspace: URIs, absolute paths or paths relative to the
+  // first workspace folder. They are kept themselves unless removeSelectedFolder is set
+  targets?: (string | vscode.Uri)[];
+}
+
+// Returned by activate for other extensions, see vscode.extensions.getExtension(...).exports
+export interface EmptyFoldersRemoverApi {
+  // Scan a folder inside the workspace with its workspace folder's settings
+  scan(uri: vscode.Uri, options?: ScanOptions): Promise<ScanResult>;
+  // Remove the empty folders of scan results. The folders are scanned again, only directories of the
+  // results that lie below the scanned folder and are still removable get removed
+  remove(candidates: ScanResult | ScanResult[], options?: RemoveOptions): Promise<RemovalStats>;
+  onDidCompleteRun: vscode.Event<CompletedRun>;
+}
+
+// Settings of each workspace folder with the run's overrides applied
+export function applyRunOptions(resolveConfig: ConfigResolver, options: RunOptions = {}): ConfigResolver {
+  return folder => {
+    const config = resolveConfig(folder);
+    return {
+      ...config,
+      ...(options.dryRun !== undefined && { dryRun: options.dryRun }),
+      excludePatterns: [...config.excludePatterns, ...(options.exclude ?? [])]
+    };
+  };
+}
+
+// Check arguments from keybindings or tasks.json, which nothing type-checks
+// Returns what is wrong with them, or undefined when they can be used
+export function validateCommandArgs(args: unknown): string | undefined {
+  if (args === undefined || args === null) {
+    return undefined;
+  }
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    return "Arguments must be an object with targets, dryRun or exclude";
+  }
+  const { targets, dryRun, exclude } = args as Record<string, unknown>;
+  if (targets !== undefined && (!Array.isArray(targets) || !targets.every(target => typeof target === 'string' || target instanceof vscode.Uri))) {
+    return "targets must be an array of paths or URIs";
+  }
+  if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+    return "dryRun must be true or false";
+  }
+  if (exclude !== undefined && (!Array.isArray(exclude) || !exclude.every(pattern => typeof pattern === 'string'))) {
+    return "exclude must be an array of patterns";
+  }
+  return undefined;
+}
+
+// Command targets from URIs or paths, undefined when none were given
+export function resolveCommandTargets(targets: (string | vscode.Uri)[] | undefined): vscode.Uri[] | undefined {
+  if (!targets || targets.length === 0) {
+    return undefined;
+  }
+  const firstFolder = vscode.workspace.workspaceFolders?.[0];
+  return targets.map(target => {
+    if (target instanceof vscode.Uri) {
+      return target;
+    }
+    // A scheme needs two letters or more, so Windows drive letters stay paths
+    if (/^[a-z][a-z0-9+.-]+:\/\//i.test(target)) {
+      return vscode.Uri.parse(target);
+    }
+    if (path.isAbsolute(target) || !firstFolder) {
+      return vscode.Uri.file(target);
+    }
+    return vscode.Uri.joinPath(firstFolder.uri, target);
+  });
+}
+
+// Scan a folder of the workspace, the selected folder itself is kept like for commands
+async function scanUri(
+  uri: vscode.Uri,
+  resolveConfig: ConfigResolver,
+  token: vscode.CancellationToken | undefined,
+  removalContext: RemovalContext
+): Promise<FolderScan> {
+  const targets = selectedTargets([uri]);
+  if (targets.length === 0) {
+    throw new Error(`${uri.toString()} is not inside the workspace`);
+  }
+
+  const tokenSource = new vscode.CancellationTokenSource();
+  let scans: FolderScan[] | undefined;
+  try {
+    scans = await scanFolders(targets, resolveConfig, silentProgress, token ?? tokenSource.token, removalContext.scanCache);
+  } finally {
+    tokenSource.dispose();
+  }
+  if (!scans) {
+    throw new vscode.CancellationError();
+  }
+  return keepSelectedRoots(scans, resolveConfig)[0];
+}
+
+export function createApi(removalContext: RemovalContext): EmptyFoldersRemoverApi {
+  return {
+    async scan(uri, options = {}) {
+      const scan = await scanUri(uri, applyRunOptions(getConfiguration, options), options.token, removalContext);
+      return {
+        uri,
+        directories: scan.directories,
+        emptyFolders: scan.directories.filter(isRemovable).map(dir => toWorkspaceUri(scan.folder, dir.path))
+      };
+    },
+
+    async remove(candidates, options = {}) {
+      const resolveConfig = applyRunOptions(getConfiguration, options);
+      const scans: FolderScan[] = [];
+      for (const candidate of Array.isArray(candidates) ? candidates : [candidates]) {
+        // The results come from another extension, so only paths the fresh scan still finds are removed
+        const requested = new Set(candidate.directories
+          .map(dir => dir.path)
+          .filter(dirPath => isSubPath(candidate.uri.fsPath, dirPath)));
+        const scan = await scanUri(candidate.uri, resolveConfig, options.token, removalContext);
+        scans.push({ ...scan, directories: scan.directories.filter(dir => requested.has(dir.path)) });
+      }
+
+      const limitReason = checkRemovalLimit(scans, "API removal", removalContext);
+      if (limitReason) {
+        throw new Error(limitReason);
+      }
+
+      const tokenSource = new vscode.CancellationTokenSource();
+      let stats: RemovalStats | undefined;
+      try {
+        stats = await removeFromScans(
+          scans,
+          resolveConfig,
+          silentProgress,
+          options.token ?? tokenSource.token,
+          removalContext
+        );
+      } finally {
+        tokenSource.dispose();
+      }
+      if (!stats) {
+        throw new vscode.CancellationError();
+      }
+      return stats;
+    },
+
+    onDidCompleteRun: removalContext.runCompleted.event
+  };
+}
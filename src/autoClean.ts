@@ -0,0 +1,157 @@
+import * as vscode from "vscode";
+import {
+  EmptyFolderConfig,
+  applyMinAge,
+  isRemovable,
+  scanAffectedChains
+} from "./core";
+import { ConfigResolver, getAutoCleanConfiguration, getConfiguration } from "./config";
+import {
+  FolderScan,
+  RemovalContext,
+  checkRemovalLimit,
+  createWorkspaceScanner,
+  removeFromScans,
+  silentProgress
+} from "./runner";
+import { getFileSystem } from "./workspaceFs";
+
+// Folder settings for auto clean, which only removes folders
+// Filling every folder a file delete empties with a keep-file is left to explicit runs
+const getAutoCleanFolderConfig: ConfigResolver = folder => {
+  const config: EmptyFolderConfig = getConfiguration(folder);
+  return config.keepFilePolicy === 'fill' ? { ...config, keepFilePolicy: 'respect' } : config;
+};
+
+// Removes folders that become empty after files are deleted or moved
+export class AutoCleaner implements vscode.Disposable {
+  private listeners: vscode.Disposable[] = [];
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | undefined;
+  private tokenSource: vscode.CancellationTokenSource | undefined;
+  private running = false;
+
+  constructor(private removalContext: RemovalContext) {
+    this.update();
+  }
+
+  // Start or stop watching according to the current settings
+  update(): void {
+    const enabled = getAutoCleanConfiguration().enabled;
+    if (enabled && !this.tokenSource) {
+      this.start();
+    } else if (!enabled && this.tokenSource) {
+      this.stop();
+    }
+  }
+
+  private start(): void {
+    this.tokenSource = new vscode.CancellationTokenSource();
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*', true, true, false);
+    this.listeners.push(
+      watcher,
+      watcher.onDidDelete(uri => this.schedule([uri])),
+      vscode.workspace.onDidDeleteFiles(event => this.schedule(event.files)),
+      vscode.workspace.onDidRenameFiles(event => this.schedule(event.files.map(file => file.oldUri)))
+    );
+  }
+
+  private stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending.clear();
+
+    this.tokenSource?.cancel();
+    this.tokenSource?.dispose();
+    this.tokenSource = undefined;
+
+    for (const listener of this.listeners) {
+      listener.dispose();
+    }
+    this.listeners = [];
+  }
+
+  private schedule(uris: readonly vscode.Uri[]): void {
+    for (const uri of uris) {
+      // Folders removed by a run, auto clean's own included, were handled by that run
+      if (uri.scheme === 'file' && !this.removalContext.removals.has(uri.fsPath)) {
+        this.pending.add(uri.fsPath);
+      }
+    }
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), getAutoCleanConfiguration().debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    const token = this.tokenSource?.token;
+    if (!token) {
+      return;
+    }
+
+    // Let the running pass finish, pending paths are picked up afterwards
+    if (this.running) {
+      this.schedule([]);
+      return;
+    }
+
+    this.running = true;
+    const changedPaths = Array.from(this.pending);
+    this.pending.clear();
+
+    try {
+      const minAgeMs = getAutoCleanConfiguration().minAgeSeconds * 1000;
+
+      // Group the changed paths per workspace folder, a branch switch can delete thousands at once
+      const byFolder = new Map<vscode.WorkspaceFolder, string[]>();
+      for (const changedPath of changedPaths) {
+        const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(changedPath));
+        if (!folder) {
+          continue;
+        }
+        const folderPaths = byFolder.get(folder) ?? [];
+        folderPaths.push(changedPath);
+        byFolder.set(folder, folderPaths);
+      }
+
+      const scans: FolderScan[] = [];
+      for (const [folder, folderPaths] of byFolder) {
+        // Each workspace folder is scanned with its own settings
+        const scanner = createWorkspaceScanner(folder, getAutoCleanFolderConfig(folder));
+        const directories = await scanAffectedChains(scanner, folderPaths, folder.uri.fsPath, token);
+        const checked = await applyMinAge(directories, minAgeMs, Date.now(), getFileSystem(folder));
+        if (checked.some(isRemovable)) {
+          scans.push({ folder, rootPath: folder.uri.fsPath, directories: checked });
+        }
+      }
+
+      if (scans.length === 0 || token.isCancellationRequested || checkRemovalLimit(scans, "Auto clean", this.removalContext)) {
+        return;
+      }
+
+      const stats = await removeFromScans(scans, getAutoCleanFolderConfig, silentProgress, token, this.removalContext);
+      if (stats && (stats.totalRemoved > 0 || stats.totalErrors > 0)) {
+        const errors = stats.totalErrors > 0 ? `, ${stats.totalErrors} failed` : '';
+        vscode.window.setStatusBarMessage(
+          `Auto clean: removed ${stats.totalRemoved} empty folder${stats.totalRemoved !== 1 ? 's' : ''}${errors}`,
+          5000
+        );
+      }
+    } catch (error) {
+      // Auto clean is best effort, the next file event retries
+      this.removalContext.log.error(
+        `Auto clean failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+}
@@ -0,0 +1,195 @@
+#!/usr/bin/env node
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  CancellationToken,
+  DirectoryScanner,
+  EmptyFolderRemover,
+  RemovalStats,
+  aggregateStats,
+  createDefaultConfig,
+  createEmptyStats,
+  describeFolderEvent,
+  scanAndRemove
+} from "./core";
+
+// Parsed command line options
+export interface CliOptions {
+  paths: string[];
+  exclude: string[];
+  dryRun: boolean;
+  concurrency: number;
+  json: boolean;
+  help: boolean;
+}
+
+// Output streams used by the CLI
+export interface CliOutput {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+}
+
+const USAGE = `Usage: empty-folders-remover [options] [paths...]
+
+Remove empty folders below each path (defaults to the current directory).
+
+Options:
+  --exclude <pattern>    Additional folder pattern to exclude (repeatable)
+  --dry-run              Show what would be removed without deleting anything
+  --concurrency <n>      Maximum number of folders to process concurrently (default: 10)
+  --json                 Print the results as JSON
+  -h, --help             Show this help`;
+
+// Parse command line arguments, throws on invalid usage
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    paths: [],
+    exclude: [],
+    dryRun: false,
+    concurrency: createDefaultConfig().maxConcurrency,
+    json: false,
+    help: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') ? arg.split(/=(.*)/s, 2) : [arg, undefined];
+
+    const takeValue = (): string => {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return value;
+    };
+
+    switch (flag) {
+      case '--exclude':
+        options.exclude.push(takeValue());
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--concurrency': {
+        const value = Number(takeValue());
+        if (!Number.isInteger(value) || value < 1) {
+          throw new Error(`Invalid value for --concurrency: must be a positive integer`);
+        }
+        options.concurrency = value;
+        break;
+      }
+      case '--json':
+        options.json = true;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        if (flag.startsWith('-')) {
+          throw new Error(`Unknown option: ${flag}`);
+        }
+        options.paths.push(arg);
+    }
+  }
+
+  return options;
+}
+
+// Run the CLI and return the exit code
+export async function runCli(argv: string[], output: CliOutput, token: CancellationToken): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    output.stderr(error instanceof Error ? error.message : String(error));
+    output.stderr(USAGE);
+    return 2;
+  }
+
+  if (options.help) {
+    output.stdout(USAGE);
+    return 0;
+  }
+
+  const defaults = createDefaultConfig();
+  const config = createDefaultConfig({
+    excludePatterns: [...defaults.excludePatterns, ...options.exclude],
+    maxConcurrency: options.concurrency,
+    dryRun: options.dryRun
+  });
+
+  const rootPaths = (options.paths.length > 0 ? options.paths : ['.']).map(p => path.resolve(p));
+  const scanner = new DirectoryScanner(config);
+  const results: { path: string; stats: RemovalStats }[] = [];
+  const startTime = Date.now();
+
+  for (const rootPath of rootPaths) {
+    if (token.isCancellationRequested) {
+      break;
+    }
+
+    const stats = await fs.stat(rootPath).catch(() => undefined);
+    if (!stats?.isDirectory()) {
+      const failed = createEmptyStats();
+      failed.totalErrors = 1;
+      failed.errors.push(`Not a directory: ${rootPath}`);
+      results.push({ path: rootPath, stats: failed });
+      continue;
+    }
+
+    // Folders are removed while the scan is still running
+    const remover = new EmptyFolderRemover(config);
+    results.push({
+      path: rootPath,
+      stats: await scanAndRemove(
+        scanner,
+        remover,
+        rootPath,
+        (event) => {
+          if (!options.json && event.status !== 'excluded') {
+            output.stdout(describeFolderEvent(event));
+          }
+        },
+        token
+      )
+    });
+  }
+
+  const totals = aggregateStats(results.map(result => result.stats));
+  totals.duration = Date.now() - startTime;
+  const cancelled = token.isCancellationRequested;
+
+  if (options.json) {
+    output.stdout(JSON.stringify({ dryRun: config.dryRun, cancelled, totals, roots: results }, null, 2));
+  } else {
+    const verb = config.dryRun ? 'Would remove' : 'Removed';
+    output.stdout(
+      `${verb} ${totals.totalRemoved} empty folder${totals.totalRemoved !== 1 ? 's' : ''}. ` +
+      `Scanned: ${totals.totalScanned}, Errors: ${totals.totalErrors}, Time: ${Math.round(totals.duration / 1000)}s`
+    );
+    for (const error of totals.errors) {
+      output.stderr(error);
+    }
+    if (cancelled) {
+      output.stderr('Cancelled.');
+    }
+  }
+
+  if (cancelled) {
+    return 130;
+  }
+  return totals.totalErrors > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+  const token: CancellationToken = { isCancellationRequested: false };
+  process.once('SIGINT', () => {
+    token.isCancellationRequested = true;
+  });
+
+  runCli(process.argv.slice(2), { stdout: console.log, stderr: console.error }, token)
+    .then(code => {
+      process.exitCode = code;
+    });
+}
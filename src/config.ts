@@ -0,0 +1,108 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { EmptyFolderConfig, DeleteMode, GitMode, SymlinkPolicy, createDefaultConfig } from "./core";
+import { toPosixPath } from "./glob";
+
+// Settings for the folders of one workspace folder
+export type ConfigResolver = (folder: vscode.WorkspaceFolder) => EmptyFolderConfig;
+
+// Get configuration from VS Code settings, folder settings override workspace settings for that folder
+export function getConfiguration(folder?: vscode.WorkspaceFolder): EmptyFolderConfig {
+  const config = vscode.workspace.getConfiguration('emptyFoldersRemover', folder?.uri);
+  const defaults = createDefaultConfig();
+
+  const excludePatterns = [...config.get('excludePatterns', defaults.excludePatterns)];
+
+  // A quarantine inside the workspace must never be scanned itself
+  const deleteMode = config.get<DeleteMode>('deleteMode', defaults.deleteMode);
+  const quarantineDirectory = config.get('quarantineDirectory', defaults.quarantineDirectory);
+  if (deleteMode === 'quarantine' && quarantineDirectory !== '' && !path.isAbsolute(quarantineDirectory)) {
+    excludePatterns.push('/' + toPosixPath(path.normalize(quarantineDirectory), path.sep));
+  }
+
+  return {
+    excludePatterns,
+    maxConcurrency: config.get('maxConcurrency', defaults.maxConcurrency),
+    dryRun: config.get('dryRun', defaults.dryRun),
+    showProgress: config.get('showProgress', defaults.showProgress),
+    respectGitignore: config.get('respectGitignore', defaults.respectGitignore),
+    junkFiles: config.get('junkFiles', defaults.junkFiles),
+    keepFiles: config.get('keepFiles', defaults.keepFiles),
+    keepFilePolicy: config.get('keepFilePolicy', defaults.keepFilePolicy),
+    removeSelectedFolder: config.get('removeSelectedFolder', defaults.removeSelectedFolder),
+    protectedPaths: config.get('protectedPaths', defaults.protectedPaths),
+    deleteMode,
+    quarantineDirectory,
+    symlinks: config.get<SymlinkPolicy>('symlinks', defaults.symlinks),
+    minAgeDays: config.get('minAgeDays', defaults.minAgeDays),
+    gitMode: config.get<GitMode>('gitMode', defaults.gitMode),
+    hollowFiles: config.get('hollowFiles', defaults.hollowFiles)
+  };
+}
+
+// Whether full scans may reuse cached directory listings
+export function isScanCacheEnabled(): boolean {
+  return vscode.workspace.getConfiguration('emptyFoldersRemover').get('scanCache', true);
+}
+
+// Whether the status bar shows the number of empty folders
+export function isStatusBarEnabled(): boolean {
+  return vscode.workspace.getConfiguration('emptyFoldersRemover.statusBar').get('enabled', false);
+}
+
+// Confirmation thresholds for runs that remove folders
+export interface ConfirmationConfig {
+  // Ask before removing more folders than this
+  confirmAbove: number;
+  // Abort runs that would remove more folders than this, 0 for no limit
+  maxRemovalsPerRun: number;
+}
+
+// Get confirmation thresholds from VS Code settings
+export function getConfirmationConfiguration(): ConfirmationConfig {
+  const config = vscode.workspace.getConfiguration('emptyFoldersRemover');
+
+  return {
+    confirmAbove: config.get('confirmAbove', 20),
+    maxRemovalsPerRun: config.get('maxRemovalsPerRun', 0)
+  };
+}
+
+// Auto clean configuration interface
+export interface AutoCleanConfig {
+  enabled: boolean;
+  debounceMs: number;
+  minAgeSeconds: number;
+}
+
+// Get auto clean configuration from VS Code settings
+export function getAutoCleanConfiguration(): AutoCleanConfig {
+  const config = vscode.workspace.getConfiguration('emptyFoldersRemover.autoClean');
+
+  return {
+    enabled: config.get('enabled', false),
+    debounceMs: config.get('debounceMs', 2000),
+    minAgeSeconds: config.get('minAgeSeconds', 300)
+  };
+}
+
+// When scheduled cleanup runs
+export type ScheduleTrigger = 'off' | 'startup' | 'shutdown' | 'interval';
+
+// Scheduled cleanup configuration interface
+export interface ScheduleConfig {
+  trigger: ScheduleTrigger;
+  intervalHours: number;
+  dryRun: boolean;
+}
+
+// Get scheduled cleanup configuration from VS Code settings
+export function getScheduleConfiguration(): ScheduleConfig {
+  const config = vscode.workspace.getConfiguration('emptyFoldersRemover.schedule');
+
+  return {
+    trigger: config.get<ScheduleTrigger>('trigger', 'off'),
+    intervalHours: Math.max(1, config.get('intervalHours', 24)),
+    dryRun: config.get('dryRun', true)
+  };
+}
@@ -1,5 +1,10 @@
 import * as fs from "fs/promises";
 import * as path from "path";
+import { IgnoreRuleSet, isIgnored, loadIgnoreFile } from "./gitignore";
+import { FOLDER_RC_FILE, FolderRc, isDisabledByRc, isExcludedByRc, isProtectedByRc, loadFolderRc } from "./folderRc";
+import { globToRegExp, hasGlobSyntax, toPosixPath } from "./glob";
+import { GitFolderInfo, GitFolderStatus, GitIndex, classifyGitFolder, loadGitIndex } from "./git";
+import { DirectoryCache, DirectoryListing } from "./scanCache";
 
 // Configuration interface
 export interface EmptyFolderConfig {
@@ -7,13 +12,90 @@ export interface EmptyFolderConfig {
   maxConcurrency: number;
   dryRun: boolean;
   showProgress: boolean;
+  respectGitignore: boolean;
+  junkFiles: string[];
+  keepFiles: string[];
+  keepFilePolicy: KeepFilePolicy;
+  removeSelectedFolder: boolean;
+  protectedPaths: string[];
+  deleteMode: DeleteMode;
+  quarantineDirectory: string;
+  symlinks: SymlinkPolicy;
+  minAgeDays: number;
+  gitMode: GitMode;
+  hollowFiles: string[];
 }
 
+// Default configuration, matching the extension settings
+export function createDefaultConfig(overrides: Partial<EmptyFolderConfig> = {}): EmptyFolderConfig {
+  return {
+    excludePatterns: [
+      '.git', '.vscode', 'node_modules', '.npm', '.yarn',
+      'dist', 'build', '.next', '.nuxt', 'coverage',
+      '__pycache__', '.pytest_cache', '.mypy_cache'
+    ],
+    maxConcurrency: 10,
+    dryRun: false,
+    showProgress: true,
+    respectGitignore: false,
+    junkFiles: ['.DS_Store', 'Thumbs.db', 'desktop.ini'],
+    keepFiles: ['.gitkeep', '.keep'],
+    keepFilePolicy: 'respect',
+    removeSelectedFolder: false,
+    protectedPaths: [],
+    deleteMode: 'permanent',
+    quarantineDirectory: '',
+    symlinks: 'treat-as-content',
+    minAgeDays: 0,
+    gitMode: 'off',
+    hollowFiles: [],
+    ...overrides
+  };
+}
+
+// How empty folders are removed
+// permanent: delete right away
+// trash: move to the OS trash
+// quarantine: move into a quarantine directory that keeps the original layout
+export type DeleteMode = 'permanent' | 'trash' | 'quarantine';
+
+// How symbolic links (and Windows junctions) inside folders are handled
+// treat-as-content: any link keeps its folder, like a file
+// ignore-dangling: broken links don't count toward emptiness and are deleted with their folder
+// follow: like ignore-dangling, and links to directories inside the workspace folder count as
+//   empty when their target is; only the link is deleted, never the target
+export type SymlinkPolicy = 'treat-as-content' | 'ignore-dangling' | 'follow';
+
+// What to do with placeholder files such as .gitkeep
+// respect: folders holding a keep-file are left alone
+// prune: keep-files are deleted together with their folder
+// fill: add a keep-file to every empty leaf instead of removing anything
+export type KeepFilePolicy = 'respect' | 'prune' | 'fill';
+
+// How empty folders are checked against git, for folders on disk inside a git work tree
+// off: no git checks
+// classify: report whether each empty folder is untracked, holds only ignored files or holds tracked paths
+// safe-only: like classify, and keep folders whose removal would change the output of git status
+export type GitMode = 'off' | 'classify' | 'safe-only';
+
 // Directory information interface
 export interface DirectoryInfo {
   path: string;
   depth: number;
   isEmpty: boolean;
+  isProtected?: boolean;
+  // Empty but touched too recently (or in use), kept like a protected directory
+  isRecent?: boolean;
+  // Symlinks that may be deleted together with this directory
+  removableLinks?: string[];
+  // Git classification of an empty directory, unless gitMode is off
+  git?: GitFolderInfo;
+  // Empty but removing it would change git status, kept in safe-only git mode
+  isGitKept?: boolean;
+  // Hollow scans only: holds nothing but hollow files, in this directory or below
+  isHollow?: boolean;
+  // Hollow files of this directory, deleted together with it
+  hollowFiles?: string[];
 }
 
 // Operation statistics interface
@@ -23,6 +105,37 @@ export interface RemovalStats {
   totalErrors: number;
   duration: number;
   errors: string[];
+  deletedFiles: string[];
+  createdFiles: string[];
+  protectedPaths: string[];
+  recentPaths: string[];
+  gitKeptPaths: string[];
+  deleteMode: DeleteMode;
+  fallbacks: string[];
+  outcomes: FolderOutcome[];
+}
+
+// What happened to a single folder during a run
+export type FolderOutcomeStatus =
+  | 'removed'
+  | 'would-remove'
+  | 'filled'
+  | 'would-fill'
+  | 'skipped-not-empty'
+  | 'protected'
+  | 'kept-recent'
+  | 'kept-git'
+  | 'excluded'
+  | 'error';
+
+// Per-folder outcome, code holds the errno code of failed operations (e.g. EACCES)
+export interface FolderOutcome {
+  path: string;
+  status: FolderOutcomeStatus;
+  code?: string;
+  message?: string;
+  // Git classification of the folder, unless gitMode is off
+  git?: GitFolderStatus;
 }
 
 // Cancellation token interface (compatible with vscode.CancellationToken)
@@ -30,188 +143,1141 @@ export interface CancellationToken {
   isCancellationRequested: boolean;
 }
 
+// A folder handled by a run, reported as it happens
+// Carries the folder's outcome plus details for logs and progress messages
+export interface FolderEvent extends FolderOutcome {
+  // Mode actually used to remove the folder
+  deleteMode?: DeleteMode;
+  // The configured delete mode wasn't available, e.g. no trash
+  fallback?: boolean;
+  // Junk files removed together with the folder
+  junkFiles?: string[];
+  // Keep-file added to the folder, or that would be added in a dry run
+  keepFile?: string;
+}
+
 // Progress callback type
-export type ProgressCallback = (message: string) => void;
+export type ProgressCallback = (event: FolderEvent) => void;
+
+// Directory entry, symlinks are reported as links whatever they point to
+export interface DirectoryEntry {
+  name: string;
+  kind: 'file' | 'directory' | 'symlink';
+}
+
+// Status of a file or directory, following symlinks
+export interface FileStat {
+  isDirectory: boolean;
+  size: number;
+  mtimeMs: number;
+  // 0 on file systems that don't record it
+  birthtimeMs: number;
+  // Last status change, stands in for the birthtime where that is missing
+  ctimeMs: number;
+  // device:inode, undefined when the file system has no such identity
+  id?: string;
+}
+
+// File system operations of the scanner and remover
+// Failures carry Node's errno codes (ENOENT, EEXIST, ...) whatever the implementation
+export interface FileSystem {
+  readDirectory(dirPath: string): Promise<DirectoryEntry[]>;
+  stat(filePath: string): Promise<FileStat>;
+  realpath(filePath: string): Promise<string>;
+  readFile(filePath: string): Promise<string>;
+  // Fails with EEXIST when the file already exists
+  createFile(filePath: string, content: string): Promise<void>;
+  deleteFile(filePath: string): Promise<void>;
+  // Fails unless the directory is empty
+  removeDirectory(dirPath: string): Promise<void>;
+}
+
+// Local disk through Node's fs
+export const nodeFileSystem: FileSystem = {
+  async readDirectory(dirPath: string): Promise<DirectoryEntry[]> {
+    // Use withFileTypes to avoid extra stat calls
+    return (await fs.readdir(dirPath, { withFileTypes: true })).map(item => ({
+      name: item.name,
+      kind: item.isDirectory() ? 'directory' : item.isSymbolicLink() ? 'symlink' : 'file'
+    }));
+  },
+  async stat(filePath: string): Promise<FileStat> {
+    const stats = await fs.stat(filePath);
+    return {
+      isDirectory: stats.isDirectory(),
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      birthtimeMs: stats.birthtimeMs,
+      ctimeMs: stats.ctimeMs,
+      id: `${stats.dev}:${stats.ino}`
+    };
+  },
+  realpath: filePath => fs.realpath(filePath),
+  readFile: filePath => fs.readFile(filePath, 'utf8'),
+  createFile: (filePath, content) => fs.writeFile(filePath, content, { flag: 'wx' }),
+  deleteFile: filePath => fs.unlink(filePath),
+  removeDirectory: dirPath => fs.rmdir(dirPath)
+};
+
+// Strategy that takes an empty directory (holding only junk files) out of the tree
+export interface DirectoryDeleter {
+  readonly mode: DeleteMode;
+  // Returns the mode actually used, which differs from mode when a fallback was needed
+  removeDirectory(dirPath: string, junkFiles: string[]): Promise<DeleteMode>;
+}
+
+// Delete junk files and the directory right away
+export function createPermanentDeleter(fileSystem: FileSystem): DirectoryDeleter {
+  return {
+    mode: 'permanent',
+    async removeDirectory(dirPath: string, junkFiles: string[]): Promise<DeleteMode> {
+      for (const junkFile of junkFiles) {
+        await fileSystem.deleteFile(junkFile);
+      }
+      await fileSystem.removeDirectory(dirPath);
+      return 'permanent';
+    }
+  };
+}
+
+export const permanentDeleter = createPermanentDeleter(nodeFileSystem);
+
+// Move directories below quarantineRoot, keeping their path relative to basePath
+// The quarantine works on the local disk only
+export function createQuarantineDeleter(quarantineRoot: string, basePath: string): DirectoryDeleter {
+  return {
+    mode: 'quarantine',
+    async removeDirectory(dirPath: string, junkFiles: string[]): Promise<DeleteMode> {
+      const target = path.join(quarantineRoot, path.relative(basePath, dirPath));
+      await fs.mkdir(target, { recursive: true });
+
+      // Copy instead of rename so the quarantine may live on another device
+      for (const junkFile of junkFiles) {
+        const destination = path.join(target, path.basename(junkFile));
+        if ((await fs.lstat(junkFile)).isSymbolicLink()) {
+          await fs.symlink(await fs.readlink(junkFile), destination);
+        } else {
+          await fs.copyFile(junkFile, destination);
+        }
+        await fs.unlink(junkFile);
+      }
+      await fs.rmdir(dirPath);
+      return 'quarantine';
+    }
+  };
+}
+
+// Build a matcher for file names that don't count toward emptiness
+export function createJunkFileMatcher(config: EmptyFolderConfig): (fileName: string) => boolean {
+  const regexes = config.junkFiles.map(pattern => globToRegExp(pattern, { braces: true, caseInsensitive: true }));
+  const keepFiles = new Set(config.keepFiles.map(name => name.toLowerCase()));
+  const pruneKeepFiles = config.keepFilePolicy === 'prune';
+
+  return (fileName: string) => keepFiles.has(fileName.toLowerCase())
+    ? pruneKeepFiles
+    : regexes.some(regex => regex.test(fileName));
+}
+
+// Build a matcher for hollow files: zero bytes or matching hollowFiles, keep-files never are
+export function createHollowFileMatcher(config: EmptyFolderConfig): (fileName: string, size: number) => boolean {
+  const regexes = config.hollowFiles.map(pattern => globToRegExp(pattern, { braces: true, caseInsensitive: true }));
+  const keepFiles = new Set(config.keepFiles.map(name => name.toLowerCase()));
+
+  return (fileName: string, size: number) => !keepFiles.has(fileName.toLowerCase()) && (
+    size === 0 || regexes.some(regex => regex.test(fileName))
+  );
+}
+
+// Check whether childPath is parentPath or lies inside it
+export function isSubPath(parentPath: string, childPath: string): boolean {
+  const relative = path.relative(parentPath, childPath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Drop paths that lie inside another path of the list
+export function removeNestedPaths(paths: string[]): string[] {
+  const unique = Array.from(new Set(paths));
+  return unique.filter(p => !unique.some(other => other !== p && isSubPath(other, p)));
+}
+
+// Empty directories that may actually be removed
+export function isRemovable(dir: DirectoryInfo): boolean {
+  return dir.isEmpty && !dir.isProtected && !dir.isRecent && !dir.isGitKept;
+}
+
+// Empty directories without empty subdirectories
+export function selectEmptyLeaves(directories: DirectoryInfo[]): DirectoryInfo[] {
+  const emptyDirectories = directories.filter(dir => dir.isEmpty);
+  const parents = new Set(emptyDirectories.map(dir => path.dirname(dir.path)));
+  return emptyDirectories.filter(dir => !parents.has(dir.path));
+}
+
+// Removable directories whose parent stays, removing one removes its whole subtree
+export function selectRemovableRoots(directories: DirectoryInfo[]): DirectoryInfo[] {
+  const removable = directories.filter(isRemovable);
+  const removablePaths = new Set(removable.map(dir => dir.path));
+  return removable.filter(dir => !removablePaths.has(path.dirname(dir.path)));
+}
+
+// Empty folders removed together because their removable root goes
+export interface CascadeChain {
+  root: DirectoryInfo;
+  // Removable folders in the cascade, the root included
+  folders: number;
+  // Levels from the root down to its deepest removable folder
+  levels: number;
+}
+
+// Cascades of the removable roots, largest first and deepest first among equal sizes
+export function selectCascadeChains(directories: DirectoryInfo[]): CascadeChain[] {
+  const removable = directories.filter(isRemovable);
+  const removablePaths = new Set(removable.map(dir => dir.path));
+  const chains = new Map<string, CascadeChain>();
+  for (const root of removable.filter(dir => !removablePaths.has(path.dirname(dir.path)))) {
+    chains.set(root.path, { root, folders: 0, levels: 0 });
+  }
+
+  // Every parent of a removable folder up to its root is removable as well
+  for (const dir of removable) {
+    let rootPath = dir.path;
+    while (!chains.has(rootPath)) {
+      rootPath = path.dirname(rootPath);
+    }
+    const chain = chains.get(rootPath)!;
+    chain.folders++;
+    chain.levels = Math.max(chain.levels, dir.depth - chain.root.depth + 1);
+  }
+
+  return Array.from(chains.values()).sort((a, b) => b.folders - a.folders || b.levels - a.levels);
+}
+
+// Removable roots of a hollow scan that hold hollow files, truly empty roots are left to regular scans
+export function selectHollowRoots(directories: DirectoryInfo[]): DirectoryInfo[] {
+  return selectRemovableRoots(directories).filter(dir => dir.isHollow);
+}
+
+// Compiled path pattern
+interface PathRule {
+  regex: RegExp;
+  matchPath: boolean;
+}
+
+// Patterns with a slash match the path relative to the workspace folder, others the basename
+function compilePathRule(pattern: string): PathRule {
+  return {
+    regex: globToRegExp(pattern.replace(/^\//, ''), { braces: true, caseInsensitive: true }),
+    matchPath: pattern.includes('/')
+  };
+}
+
+function matchesPathRule(rule: PathRule, dirName: string, relativePath: string): boolean {
+  return rule.regex.test(rule.matchPath ? relativePath : dirName);
+}
+
+// Callbacks for every directory a streaming scan settles or skips
+export interface ScanObserver {
+  onDirectory?: (dir: DirectoryInfo) => void;
+  onExcluded?: (dirPath: string) => void;
+}
+
+// Directory waiting to be read by the scanner
+interface QueuedDirectory {
+  path: string;
+  depth: number;
+  parent?: PendingDirectory;
+  ignoreRules: IgnoreRuleSet[];
+  rcFiles: FolderRc[];
+  // A followed symlink, and anything below one
+  isLink?: boolean;
+  linked?: boolean;
+}
+
+// Directory that was read but still waits for some of its subdirectories
+interface PendingDirectory {
+  path: string;
+  depth: number;
+  relativePath: string;
+  parent?: PendingDirectory;
+  pendingChildren: number;
+  hasContent: boolean;
+  removableLinks: string[];
+  hollowFiles: string[];
+  // Some empty subdirectory holds hollow files
+  hasHollowFiles: boolean;
+  rcFiles: FolderRc[];
+  // Disabled by a .emptyfoldersrc file, still read in case a nearer file enables a subtree
+  disabled?: boolean;
+  isLink?: boolean;
+  linked?: boolean;
+  // device:inode, only known when following symlinks
+  id?: string;
+  // Latest of mtime and birthtime, only known with a minimum age
+  touchedMs?: number;
+}
 
 // Directory scanner class
 export class DirectoryScanner {
   private simplePatterns: Set<string>;
-  private regexPatterns: RegExp[];
+  private regexPatterns: PathRule[];
+  private negatedPatterns: PathRule[];
+  private protectedPatterns: PathRule[];
+  private protectedRoots: Set<string>;
+  private respectGitignore: boolean;
+  private maxConcurrency: number;
+  private symlinks: SymlinkPolicy;
+  private minAgeMs: number;
+  private gitMode: GitMode;
+  private inUsePaths: Set<string>;
+  private isJunkFile: (fileName: string) => boolean;
+  private isHollowFile: (fileName: string, size: number) => boolean;
 
-  constructor(config: EmptyFolderConfig) {
+  // protectedRoots are directories that must never be removed, such as workspace folders
+  // cache lets repeated scans skip reading directories whose mtime is unchanged
+  // inUsePaths are kept like recently touched directories, e.g. folders of open editors
+  constructor(
+    config: EmptyFolderConfig,
+    protectedRoots: string[] = [],
+    private cache?: DirectoryCache,
+    inUsePaths: string[] = [],
+    readonly fileSystem: FileSystem = nodeFileSystem
+  ) {
     this.simplePatterns = new Set<string>();
     this.regexPatterns = [];
+    this.negatedPatterns = [];
+    this.protectedPatterns = config.protectedPaths.map(pattern => compilePathRule(pattern.replace(/\/+$/, '')));
+    this.protectedRoots = new Set(protectedRoots.map(root => path.resolve(root)));
+    this.respectGitignore = config.respectGitignore;
+    this.maxConcurrency = config.maxConcurrency;
+    this.symlinks = config.symlinks;
+    this.minAgeMs = config.minAgeDays * 24 * 60 * 60 * 1000;
+    this.gitMode = config.gitMode;
+    this.inUsePaths = new Set(inUsePaths.map(dirPath => path.resolve(dirPath)));
+    this.isJunkFile = createJunkFileMatcher(config);
+    this.isHollowFile = createHollowFileMatcher(config);
 
     // Pre-compile patterns for faster matching
-    for (const pattern of config.excludePatterns) {
-      if (pattern.includes('*')) {
-        this.regexPatterns.push(new RegExp('^' + pattern.replace(/\*/g, '.*') + '$', 'i'));
-      } else {
+    for (const rawPattern of config.excludePatterns) {
+      const negated = rawPattern.startsWith('!');
+      const pattern = (negated ? rawPattern.slice(1) : rawPattern).replace(/\/+$/, '');
+      if (pattern === '') {
+        continue;
+      }
+
+      if (!negated && !pattern.includes('/') && !hasGlobSyntax(pattern)) {
         this.simplePatterns.add(pattern.toLowerCase());
+        continue;
       }
+
+      (negated ? this.negatedPatterns : this.regexPatterns).push(compilePathRule(pattern));
     }
   }
 
-  async scanDirectories(rootPath: string, token: CancellationToken): Promise<DirectoryInfo[]> {
+  // basePath is the workspace folder that relative exclude patterns and ignore files are resolved from
+  // onExcluded is called for each directory skipped by exclude patterns or ignore files
+  async scanDirectories(
+    rootPath: string,
+    token: CancellationToken,
+    basePath: string = rootPath,
+    onExcluded?: (dirPath: string) => void
+  ): Promise<DirectoryInfo[]> {
+    return this.collect(rootPath, token, basePath, onExcluded, false);
+  }
+
+  // Like scanDirectories, but files that are all hollow (zero bytes or matching hollowFiles) don't keep
+  // a directory either. Such directories are marked isHollow, truly empty ones aren't
+  async scanHollowDirectories(
+    rootPath: string,
+    token: CancellationToken,
+    basePath: string = rootPath,
+    onExcluded?: (dirPath: string) => void
+  ): Promise<DirectoryInfo[]> {
+    return this.collect(rootPath, token, basePath, onExcluded, true);
+  }
+
+  private async collect(
+    rootPath: string,
+    token: CancellationToken,
+    basePath: string,
+    onExcluded: ((dirPath: string) => void) | undefined,
+    hollow: boolean
+  ): Promise<DirectoryInfo[]> {
     const directories: DirectoryInfo[] = [];
-    const emptyDirs = new Set<string>();
+    const candidates = this.scan(rootPath, token, basePath, { onDirectory: dir => directories.push(dir), onExcluded }, hollow);
 
-    const scanRecursive = async (dirPath: string, depth: number): Promise<void> => {
-      if (token.isCancellationRequested) {
+    // Every directory is collected by onDirectory, the candidates only need draining
+    while (!(await candidates.next()).done) { }
+
+    // Sort by depth (deepest first) for bottom-up processing
+    return directories.sort((a, b) => b.depth - a.depth);
+  }
+
+  // Stream empty directories (including protected ones) as soon as their subtree is fully scanned
+  // Children are always yielded before their parent, at most maxConcurrency directories are read at once
+  // hollow treats directories holding only hollow files as empty, see scanHollowDirectories
+  async *scan(
+    rootPath: string,
+    token: CancellationToken,
+    basePath: string = rootPath,
+    observer: ScanObserver = {},
+    hollow: boolean = false
+  ): AsyncGenerator<DirectoryInfo> {
+    const limit = Math.max(1, this.maxConcurrency);
+    const stack: QueuedDirectory[] = [{
+      path: rootPath,
+      depth: 0,
+      ignoreRules: await this.loadRootIgnoreRules(rootPath, basePath),
+      rcFiles: await this.loadRootRcFiles(rootPath, basePath)
+    }];
+    const ready: DirectoryInfo[] = [];
+    let active = 0;
+    let stopped = false;
+    let wake: (() => void) | undefined;
+    const realBasePath = this.symlinks === 'follow' ? await this.fileSystem.realpath(basePath).catch(() => basePath) : basePath;
+    const touchedBefore = Date.now() - this.minAgeMs;
+    const gitIndex = await this.loadGitIndex(rootPath);
+
+    // Report a settled child to its parent, which settles once its last child has
+    const release = (parent: PendingDirectory | undefined, removable: boolean, isHollow = false): void => {
+      if (!parent) {
         return;
       }
+      parent.hasContent = parent.hasContent || !removable;
+      parent.hasHollowFiles = parent.hasHollowFiles || isHollow;
+      if (--parent.pendingChildren === 0) {
+        settle(parent);
+      }
+    };
 
-      try {
-        // Check if directory should be excluded
-        const dirName = path.basename(dirPath);
-        if (this.shouldExclude(dirName)) {
-          return;
+    const settle = (dir: PendingDirectory): void => {
+      const isEmpty = !dir.hasContent;
+
+      // Disabled directories are never reported or removed, so their parent isn't empty
+      if (dir.disabled) {
+        release(dir.parent, false);
+        return;
+      }
+
+      // Directories reached through a followed link only decide whether the link may go
+      if (dir.linked) {
+        if (isEmpty && dir.isLink) {
+          dir.parent?.removableLinks.push(dir.path);
         }
+        release(dir.parent, isEmpty);
+        return;
+      }
 
-        // Use withFileTypes to avoid extra stat calls
-        const items = await fs.readdir(dirPath, { withFileTypes: true });
+      const isProtected = this.isProtected(dir.path, dir.relativePath, dir.rcFiles);
+      const isRecent = isEmpty && !isProtected && (
+        this.inUsePaths.has(path.resolve(dir.path)) ||
+        (dir.touchedMs !== undefined && dir.touchedMs > touchedBefore)
+      );
+      const isHollow = isEmpty && (dir.hollowFiles.length > 0 || dir.hasHollowFiles);
+      const git = isEmpty && gitIndex ? classifyGitFolder(gitIndex, dir.path) : undefined;
+      const isGitKept = this.gitMode === 'safe-only' && !isProtected && !isRecent && git?.changesStatus === true;
+      const info: DirectoryInfo = {
+        path: dir.path,
+        depth: dir.depth,
+        isEmpty,
+        ...(isProtected && { isProtected }),
+        ...(isRecent && { isRecent }),
+        ...(isEmpty && dir.removableLinks.length > 0 && { removableLinks: dir.removableLinks }),
+        ...(git && { git }),
+        ...(isGitKept && { isGitKept }),
+        ...(isHollow && { isHollow }),
+        ...(isEmpty && dir.hollowFiles.length > 0 && { hollowFiles: dir.hollowFiles })
+      };
 
-        const subdirectories: string[] = [];
-        let hasFiles = false;
+      observer.onDirectory?.(info);
+      if (isEmpty) {
+        ready.push(info);
+      }
 
-        for (const item of items) {
-          if (token.isCancellationRequested) {
-            return;
+      // A protected, recent or git-kept directory stays, so its parent can't become empty
+      release(dir.parent, isEmpty && !isProtected && !isRecent && !isGitKept, isHollow);
+    };
+
+    const visit = async (entry: QueuedDirectory): Promise<void> => {
+      const relativePath = toPosixPath(path.relative(basePath, entry.path), path.sep);
+
+      // Excluded directories stay, so their parent isn't empty
+      if (this.isExcludedDirectory(entry.path, relativePath, entry.ignoreRules, entry.rcFiles)) {
+        observer.onExcluded?.(entry.path);
+        release(entry.parent, false);
+        return;
+      }
+
+      // Only the top of a disabled subtree counts as excluded
+      const disabled = isDisabledByRc(entry.rcFiles, entry.path);
+      if (disabled && !entry.parent?.disabled) {
+        observer.onExcluded?.(entry.path);
+      }
+
+      let listing: DirectoryListing;
+      let id: string | undefined;
+      let touchedMs: number | undefined;
+      let childIgnoreRules = entry.ignoreRules;
+      let childRcFiles = entry.rcFiles;
+      try {
+        listing = await this.readDirectory(entry.path);
+        if (this.symlinks === 'follow' || this.minAgeMs > 0) {
+          const stats = await this.fileSystem.stat(entry.path);
+          id = stats.id;
+          // Without a minimum age nothing is recent, even a directory created as the scan started
+          if (this.minAgeMs > 0) {
+            touchedMs = Math.max(stats.mtimeMs, stats.birthtimeMs);
           }
+        }
 
-          if (item.isDirectory()) {
-            subdirectories.push(path.join(dirPath, item.name));
-          } else {
-            hasFiles = true;
+        // Nested .gitignore rules apply to everything below this directory
+        if (listing.hasGitignore && this.respectGitignore) {
+          const ruleSet = await loadIgnoreFile(path.join(entry.path, '.gitignore'), entry.path, this.readFile);
+          if (ruleSet) {
+            childIgnoreRules = [...entry.ignoreRules, ruleSet];
           }
         }
 
-        // Process subdirectories in parallel for better performance
-        await Promise.all(subdirectories.map(subdir => scanRecursive(subdir, depth + 1)));
+        // Nearer .emptyfoldersrc files override farther ones
+        if (listing.hasRcFile) {
+          const rc = await loadFolderRc(path.join(entry.path, FOLDER_RC_FILE), entry.path, this.readFile);
+          if (rc) {
+            childRcFiles = [...entry.rcFiles, rc];
+          }
+        }
+      } catch (error) {
+        // A directory that vanished meanwhile (e.g. removed by a streaming run) doesn't keep its parent
+        release(entry.parent, (error as NodeJS.ErrnoException).code === 'ENOENT');
+        return;
+      }
 
-        // Determine emptiness considering subdirectories emptiness
-        const allSubdirsEmpty = subdirectories.every(sd => emptyDirs.has(sd));
-        const isEmpty = !hasFiles && allSubdirsEmpty;
+      const subdirectories = listing.subdirectories.map(name => path.join(entry.path, name));
+      const dir: PendingDirectory = {
+        path: entry.path,
+        depth: entry.depth,
+        relativePath,
+        parent: entry.parent,
+        pendingChildren: 0,
+        hasContent: listing.hasFiles,
+        removableLinks: [],
+        hollowFiles: [],
+        hasHollowFiles: false,
+        rcFiles: entry.rcFiles,
+        disabled,
+        isLink: entry.isLink,
+        linked: entry.linked,
+        id,
+        touchedMs
+      };
 
-        // Add current directory to list
-        directories.push({
-          path: dirPath,
-          depth,
-          isEmpty
-        });
+      // Listings don't keep file names, so hollow scans read directories with files again
+      if (hollow && dir.hasContent) {
+        const hollowFiles = await this.findHollowFiles(entry.path);
+        if (hollowFiles) {
+          dir.hasContent = false;
+          dir.hollowFiles = hollowFiles;
+        }
+      }
+
+      // Links only matter while the directory may still turn out empty
+      const followedLinks: string[] = [];
+      for (const name of listing.symlinks) {
+        if (dir.hasContent) {
+          break;
+        }
+        if (this.isJunkFile(name)) {
+          continue;
+        }
 
-        if (isEmpty) {
-          emptyDirs.add(dirPath);
+        const linkPath = path.join(entry.path, name);
+        const kind = await this.classifyLink(linkPath, dir, realBasePath);
+        if (kind === 'removable') {
+          dir.removableLinks.push(linkPath);
+        } else if (kind === 'follow') {
+          followedLinks.push(linkPath);
+        } else {
+          dir.hasContent = true;
         }
+      }
 
-      } catch {
-        // Directory not accessible, skip it
+      if (dir.hasContent) {
+        followedLinks.length = 0;
+      }
+      dir.pendingChildren = subdirectories.length + followedLinks.length;
+      if (dir.pendingChildren === 0) {
+        settle(dir);
         return;
       }
+      for (const subdir of subdirectories) {
+        stack.push({ path: subdir, depth: entry.depth + 1, parent: dir, ignoreRules: childIgnoreRules, rcFiles: childRcFiles, linked: entry.linked });
+      }
+      for (const linkPath of followedLinks) {
+        stack.push({
+          path: linkPath,
+          depth: entry.depth + 1,
+          parent: dir,
+          ignoreRules: childIgnoreRules,
+          rcFiles: childRcFiles,
+          isLink: true,
+          linked: true
+        });
+      }
     };
 
-    await scanRecursive(rootPath, 0);
+    try {
+      while (true) {
+        // Depth-first order keeps the queue small on wide trees
+        while (!stopped && !token.isCancellationRequested && active < limit && stack.length > 0) {
+          active++;
+          visit(stack.pop()!).finally(() => {
+            active--;
+            const resume = wake;
+            wake = undefined;
+            resume?.();
+          });
+        }
 
-    // Sort by depth (deepest first) for bottom-up processing
-    return directories.sort((a, b) => b.depth - a.depth);
+        for (const info of ready.splice(0)) {
+          yield info;
+        }
+
+        if (active === 0 && (stack.length === 0 || token.isCancellationRequested)) {
+          break;
+        }
+        if (active > 0) {
+          await new Promise<void>(resolve => wake = resolve);
+        }
+      }
+    } finally {
+      // Stop reading further directories when the consumer stops early
+      stopped = true;
+    }
+  }
+
+  // Read a directory, or reuse the cached listing while its mtime is unchanged
+  private async readDirectory(dirPath: string): Promise<DirectoryListing> {
+    const mtimeMs = this.cache ? (await this.fileSystem.stat(dirPath)).mtimeMs : 0;
+    const cached = this.cache?.get(dirPath, mtimeMs);
+    if (cached) {
+      return cached;
+    }
+
+    const readAt = Date.now();
+    const listing: DirectoryListing = { subdirectories: [], symlinks: [], hasFiles: false, hasGitignore: false, hasRcFile: false };
+
+    for (const item of await this.fileSystem.readDirectory(dirPath)) {
+      if (item.kind === 'directory') {
+        listing.subdirectories.push(item.name);
+      } else if (item.kind === 'symlink') {
+        // Links are classified on every scan, their targets may change without the mtime
+        listing.symlinks.push(item.name);
+      } else {
+        // Junk files don't count toward emptiness
+        listing.hasFiles = listing.hasFiles || !this.isJunkFile(item.name);
+        listing.hasGitignore = listing.hasGitignore || item.name === '.gitignore';
+        listing.hasRcFile = listing.hasRcFile || item.name === FOLDER_RC_FILE;
+      }
+    }
+
+    this.cache?.set(dirPath, mtimeMs, listing, readAt);
+    return listing;
+  }
+
+  // Files of a directory when all of them are hollow, undefined as soon as one isn't
+  private async findHollowFiles(dirPath: string): Promise<string[] | undefined> {
+    const hollowFiles: string[] = [];
+    try {
+      for (const item of await this.fileSystem.readDirectory(dirPath)) {
+        if (item.kind !== 'file' || this.isJunkFile(item.name)) {
+          continue;
+        }
+        const filePath = path.join(dirPath, item.name);
+        if (!this.isHollowFile(item.name, (await this.fileSystem.stat(filePath)).size)) {
+          return undefined;
+        }
+        hollowFiles.push(filePath);
+      }
+    } catch {
+      // Whatever can't be read keeps the directory
+      return undefined;
+    }
+    return hollowFiles;
+  }
+
+  // git reads the local disk, so other file systems are never classified
+  private async loadGitIndex(rootPath: string): Promise<GitIndex | undefined> {
+    if (this.gitMode === 'off' || this.fileSystem !== nodeFileSystem) {
+      return undefined;
+    }
+    return loadGitIndex(rootPath);
+  }
+
+  // Ignore files and .emptyfoldersrc files are read through the scanner's file system
+  private readFile = (filePath: string): Promise<string> => this.fileSystem.readFile(filePath);
+
+  // Decide how a symlink inside dir affects its emptiness according to the symlinks policy
+  private async classifyLink(
+    linkPath: string,
+    dir: PendingDirectory,
+    realBasePath: string
+  ): Promise<'content' | 'removable' | 'follow'> {
+    if (this.symlinks === 'treat-as-content') {
+      return 'content';
+    }
+
+    try {
+      const target = await this.fileSystem.stat(linkPath);
+      if (this.symlinks !== 'follow' || !target.isDirectory) {
+        return 'content';
+      }
+
+      // Never follow links out of the workspace folder
+      if (!isSubPath(realBasePath, await this.fileSystem.realpath(linkPath))) {
+        return 'content';
+      }
+
+      // A link back to a directory on the current path would loop forever
+      // Without directory identities cycles can't be detected, so the link isn't followed
+      const id = target.id;
+      if (id === undefined) {
+        return 'content';
+      }
+      for (let ancestor: PendingDirectory | undefined = dir; ancestor; ancestor = ancestor.parent) {
+        if (ancestor.id === id) {
+          return 'content';
+        }
+      }
+      return 'follow';
+    } catch (error) {
+      // Dangling links, including links pointing at themselves
+      const code = (error as NodeJS.ErrnoException).code;
+      return code === 'ENOENT' || code === 'ELOOP' ? 'removable' : 'content';
+    }
+  }
+
+  // Repository-wide excludes apply before any .gitignore file
+  private async loadRootIgnoreRules(rootPath: string, basePath: string): Promise<IgnoreRuleSet[]> {
+    const rootIgnoreRules: IgnoreRuleSet[] = [];
+    if (!this.respectGitignore) {
+      return rootIgnoreRules;
+    }
+
+    const ignoreFiles = [path.join(basePath, '.git', 'info', 'exclude')];
+
+    // When scanning a subtree, .gitignore files above it apply as well
+    let dir = rootPath;
+    while (dir !== basePath && isSubPath(basePath, dir)) {
+      dir = path.dirname(dir);
+      ignoreFiles.splice(1, 0, path.join(dir, '.gitignore'));
+    }
+
+    for (const ignoreFile of ignoreFiles) {
+      const ruleSet = await loadIgnoreFile(
+        ignoreFile,
+        ignoreFile.endsWith('.gitignore') ? path.dirname(ignoreFile) : basePath,
+        this.readFile
+      );
+      if (ruleSet) {
+        rootIgnoreRules.push(ruleSet);
+      }
+    }
+    return rootIgnoreRules;
+  }
+
+  // When scanning a subtree, .emptyfoldersrc files from the workspace folder down to it apply as well
+  private async loadRootRcFiles(rootPath: string, basePath: string): Promise<FolderRc[]> {
+    const directories: string[] = [];
+    for (let dir = rootPath; dir !== basePath && isSubPath(basePath, dir);) {
+      dir = path.dirname(dir);
+      directories.unshift(dir);
+    }
+
+    const rcFiles: FolderRc[] = [];
+    for (const dir of directories) {
+      const rc = await loadFolderRc(path.join(dir, FOLDER_RC_FILE), dir, this.readFile);
+      if (rc) {
+        rcFiles.push(rc);
+      }
+    }
+    return rcFiles;
   }
 
-  shouldExclude(dirName: string): boolean {
-    const lowerName = dirName.toLowerCase();
+  // .emptyfoldersrc files decide before the exclude patterns from settings, .gitignore files always exclude
+  private isExcludedDirectory(dirPath: string, relativePath: string, ignoreRules: IgnoreRuleSet[], rcFiles: FolderRc[]): boolean {
+    const excluded = isExcludedByRc(rcFiles, dirPath) ?? this.shouldExclude(path.basename(dirPath), relativePath || undefined);
+    return excluded || isIgnored(ignoreRules, dirPath);
+  }
+
+  // relativePath uses forward slashes and defaults to the directory name
+  shouldExclude(dirName: string, relativePath: string = dirName): boolean {
+    const matches = (rule: PathRule) => matchesPathRule(rule, dirName, relativePath);
+
+    // O(1) lookup for simple patterns, then check regex patterns
+    const excluded = this.simplePatterns.has(dirName.toLowerCase()) || this.regexPatterns.some(matches);
 
-    // O(1) lookup for simple patterns
-    if (this.simplePatterns.has(lowerName)) {
+    // Negated patterns re-include a subtree
+    return excluded && !this.negatedPatterns.some(matches);
+  }
+
+  // Whether a directory itself holds files that keep it, without reading its subdirectories
+  // Symlinks don't count, whether they keep the directory depends on where they point
+  async holdsFiles(dirPath: string): Promise<boolean> {
+    try {
+      const entries = await this.fileSystem.readDirectory(dirPath);
+      return entries.some(entry => entry.kind === 'file' && !this.isJunkFile(entry.name));
+    } catch {
+      // Whatever can't be read keeps the directory
       return true;
     }
+  }
+
+  // Check whether dirPath or any of its ancestors below basePath is excluded or ignored, or dirPath is disabled
+  async isExcludedPath(dirPath: string, basePath: string): Promise<boolean> {
+    const ignoreRules: IgnoreRuleSet[] = [];
+    const rcFiles: FolderRc[] = [];
+    const loadRules = async (filePath: string, baseDir: string) => {
+      const ruleSet = this.respectGitignore ? await loadIgnoreFile(filePath, baseDir, this.readFile) : undefined;
+      if (ruleSet) {
+        ignoreRules.push(ruleSet);
+      }
+    };
+
+    await loadRules(path.join(basePath, '.git', 'info', 'exclude'), basePath);
+
+    let current = basePath;
+    for (const segment of path.relative(basePath, dirPath).split(path.sep).filter(Boolean)) {
+      await loadRules(path.join(current, '.gitignore'), current);
+      const rc = await loadFolderRc(path.join(current, FOLDER_RC_FILE), current, this.readFile);
+      if (rc) {
+        rcFiles.push(rc);
+      }
+      current = path.join(current, segment);
+
+      const relativePath = toPosixPath(path.relative(basePath, current), path.sep);
+      if (this.isExcludedDirectory(current, relativePath, ignoreRules, rcFiles)) {
+        return true;
+      }
+    }
 
-    // Check regex patterns
-    return this.regexPatterns.some(regex => regex.test(dirName));
+    // A nearer file may enable a subtree inside a disabled one
+    return isDisabledByRc(rcFiles, dirPath);
+  }
+
+  // Workspace roots, protectedPaths matches and paths protected by .emptyfoldersrc files are never removed
+  isProtected(dirPath: string, relativePath: string, rcFiles: FolderRc[] = []): boolean {
+    if (relativePath === '' || this.protectedRoots.has(path.resolve(dirPath))) {
+      return true;
+    }
+    const dirName = path.basename(dirPath);
+    return isProtectedByRc(rcFiles, dirPath) ?? this.protectedPatterns.some(rule => matchesPathRule(rule, dirName, relativePath));
   }
 }
 
+// Progress wording for each delete mode
+const DELETE_MODE_ACTIONS: Record<DeleteMode, string> = {
+  permanent: 'Removed',
+  trash: 'Moved to trash',
+  quarantine: 'Quarantined'
+};
+
+// Short progress message for an event, e.g. "Removed: build"
+export function describeFolderEvent(event: FolderEvent): string {
+  const name = path.basename(event.path);
+  const keepFileName = path.basename(event.keepFile ?? '.gitkeep');
+  switch (event.status) {
+    case 'removed':
+      return `${DELETE_MODE_ACTIONS[event.deleteMode ?? 'permanent']}: ${name}`;
+    case 'would-remove':
+      return `[DRY RUN] Would remove: ${name}`;
+    case 'filled':
+      return `Added ${keepFileName}: ${name}`;
+    case 'would-fill':
+      return `[DRY RUN] Would add ${keepFileName}: ${name}`;
+    case 'skipped-not-empty':
+      return `Skipped (no longer empty): ${name}`;
+    case 'protected':
+      return `Skipped (protected): ${name}`;
+    case 'kept-recent':
+      return `Skipped (too recent): ${name}`;
+    case 'kept-git':
+      return `Skipped (changes git status): ${name}`;
+    case 'excluded':
+      return `Excluded: ${name}`;
+    case 'error':
+      return `Error: ${name}`;
+  }
+}
+
+// Error outcome carrying the errno code when there is one
+function errorOutcome(dirPath: string, error: unknown, message: string): FolderOutcome {
+  const code = (error as NodeJS.ErrnoException | undefined)?.code;
+  return {
+    path: dirPath,
+    status: 'error',
+    ...(typeof code === 'string' && { code }),
+    message
+  };
+}
+
 // Empty folder remover class
 export class EmptyFolderRemover {
   private config: EmptyFolderConfig;
   private stats: RemovalStats;
+  private removed: DirectoryInfo[] = [];
+  private isJunkFile: (fileName: string) => boolean;
+  private isHollowFile: (fileName: string, size: number) => boolean;
 
-  constructor(config: EmptyFolderConfig) {
+  // The deleter should work on the same file system, see createPermanentDeleter
+  constructor(
+    config: EmptyFolderConfig,
+    private deleter: DirectoryDeleter = permanentDeleter,
+    private fileSystem: FileSystem = nodeFileSystem
+  ) {
     this.config = config;
-    this.stats = {
-      totalScanned: 0,
-      totalRemoved: 0,
-      totalErrors: 0,
-      duration: 0,
-      errors: []
-    };
+    this.stats = createEmptyStats();
+    this.stats.deleteMode = deleter.mode;
+    this.isJunkFile = createJunkFileMatcher(config);
+    this.isHollowFile = createHollowFileMatcher(config);
+  }
+
+  // Recent and git-kept directories are reported and left alone, returns true when dir was skipped
+  private keepUntouched(dir: DirectoryInfo, onProgress: ProgressCallback): boolean {
+    if (dir.isRecent) {
+      this.stats.recentPaths.push(dir.path);
+      this.report(dir, { path: dir.path, status: 'kept-recent' }, onProgress);
+      return true;
+    }
+    if (dir.isGitKept) {
+      this.stats.gitKeptPaths.push(dir.path);
+      this.report(dir, { path: dir.path, status: 'kept-git' }, onProgress);
+      return true;
+    }
+    return false;
+  }
+
+  // Record the outcome of a folder, with its git classification, and report it with its details
+  private report(
+    dir: DirectoryInfo,
+    outcome: FolderOutcome,
+    onProgress: ProgressCallback,
+    details: Partial<FolderEvent> = {}
+  ): void {
+    const recorded = dir.git ? { ...outcome, git: dir.git.status } : outcome;
+    this.stats.outcomes.push(recorded);
+    onProgress({ ...recorded, ...details });
   }
 
+  // Directories may be a scan result or candidates streamed from DirectoryScanner.scan
+  // Streamed candidates must yield children before their parent, as the scanner does
   async removeEmptyFolders(
-    directories: DirectoryInfo[],
+    directories: DirectoryInfo[] | AsyncIterable<DirectoryInfo>,
     onProgress: ProgressCallback,
     token: CancellationToken
   ): Promise<RemovalStats> {
     const startTime = Date.now();
-    const emptyDirectories = directories.filter(dir => dir.isEmpty);
+    const fill = this.config.keepFilePolicy === 'fill';
+    const limit = Math.max(1, this.config.maxConcurrency);
 
-    this.stats.totalScanned = directories.length;
+    // Deepest first, so children are removed before parents
+    const candidates = Array.isArray(directories)
+      ? [...directories].sort((a, b) => b.depth - a.depth)
+      : directories;
 
-    // Process directories grouped by depth to ensure children are removed before parents
-    const batchSize = this.config.maxConcurrency;
-    const depthMap = new Map<number, DirectoryInfo[]>();
-    for (const dir of emptyDirectories) {
-      const list = depthMap.get(dir.depth) ?? [];
-      list.push(dir);
-      depthMap.set(dir.depth, list);
-    }
+    const running = new Map<string, Promise<void>>();
+    const emptyParents = new Set<string>();
 
-    const depths = Array.from(depthMap.keys()).sort((a, b) => b - a);
-
-    for (const depth of depths) {
+    for await (const dir of candidates) {
+      this.stats.totalScanned++;
       if (token.isCancellationRequested) {
         break;
       }
-      const group = depthMap.get(depth) || [];
-      for (let i = 0; i < group.length; i += batchSize) {
-        if (token.isCancellationRequested) {
-          break;
-        }
-        const batch = group.slice(i, i + batchSize);
-        const promises = batch.map(dir => this.removeDirectory(dir, onProgress));
-        await Promise.allSettled(promises);
+      if (!dir.isEmpty) {
+        continue;
+      }
+
+      // Only empty leaves get a keep-file
+      const isLeaf = !emptyParents.has(dir.path);
+      emptyParents.add(path.dirname(dir.path));
+      if (fill && !isLeaf) {
+        continue;
       }
+
+      while (running.size >= limit) {
+        await Promise.race(running.values());
+      }
+
+      // Children still being removed must be gone before their parent is checked
+      const children = Array.from(running)
+        .filter(([childPath]) => path.dirname(childPath) === dir.path)
+        .map(([, task]) => task);
+
+      const task = Promise.all(children)
+        .then(() => fill ? this.fillDirectory(dir, onProgress) : this.removeDirectory(dir, onProgress))
+        .finally(() => running.delete(dir.path));
+      running.set(dir.path, task);
     }
 
+    await Promise.all(running.values());
+
     this.stats.duration = Date.now() - startTime;
     return this.stats;
   }
 
   private async removeDirectory(dir: DirectoryInfo, onProgress: ProgressCallback): Promise<void> {
+    if (this.keepUntouched(dir, onProgress)) {
+      return;
+    }
+
+    if (dir.isProtected) {
+      this.stats.protectedPaths.push(dir.path);
+      this.report(dir, { path: dir.path, status: 'protected' }, onProgress);
+      return;
+    }
+
     try {
-      // Double-check if directory is still empty before removal
-      const items = await fs.readdir(dir.path);
+      // Double-check if directory is still empty (or holds only junk files) before removal
+      const items = await this.fileSystem.readDirectory(dir.path);
+      const isDisposable = this.createDisposableMatcher(dir);
+      const junkFiles = items
+        .filter(isDisposable)
+        .map(item => path.join(dir.path, item.name));
 
-      if (items.length === 0) {
+      if (junkFiles.length === items.length && await this.areStillHollow(dir, junkFiles)) {
+        let usedMode: DeleteMode | undefined;
         if (!this.config.dryRun) {
-          await fs.rmdir(dir.path);
+          usedMode = await this.deleter.removeDirectory(dir.path, junkFiles);
+          if (usedMode !== this.deleter.mode) {
+            this.stats.fallbacks.push(dir.path);
+          }
+          this.removed.push(dir);
         }
 
         this.stats.totalRemoved++;
-        onProgress(`${this.config.dryRun ? '[DRY RUN] Would remove' : 'Removed'}: ${path.basename(dir.path)}`);
+        // Dry runs only mention the junk files in the folder's event
+        if (usedMode) {
+          this.stats.deletedFiles.push(...junkFiles);
+        }
+        this.report(dir, { path: dir.path, status: usedMode ? 'removed' : 'would-remove' }, onProgress, {
+          ...(usedMode && { deleteMode: usedMode }),
+          ...(usedMode && usedMode !== this.deleter.mode && { fallback: true }),
+          ...(junkFiles.length > 0 && { junkFiles })
+        });
       } else {
         // Directory is no longer empty, skip but still update progress
-        onProgress(`Skipped (no longer empty): ${path.basename(dir.path)}`);
+        this.report(dir, { path: dir.path, status: 'skipped-not-empty' }, onProgress);
       }
     } catch (error) {
       this.stats.totalErrors++;
-      const errorMessage = `Failed to remove ${dir.path}: ${error instanceof Error ? error.message : String(error)}`;
-      this.stats.errors.push(errorMessage);
-      onProgress(`Error: ${path.basename(dir.path)}`);
+      const message = error instanceof Error ? error.message : String(error);
+      this.stats.errors.push(`Failed to remove ${dir.path}: ${message}`);
+      this.report(dir, errorOutcome(dir.path, error, message), onProgress);
     }
   }
 
+  private async fillDirectory(dir: DirectoryInfo, onProgress: ProgressCallback): Promise<void> {
+    if (this.keepUntouched(dir, onProgress)) {
+      return;
+    }
+
+    // Workspace roots may be filled, the keep-file doesn't remove anything
+    const keepFileName = this.config.keepFiles[0] ?? '.gitkeep';
+    const keepFile = path.join(dir.path, keepFileName);
+
+    try {
+      // Double-check that the leaf is still empty before adding the keep-file
+      const items = await this.fileSystem.readDirectory(dir.path);
+      if (items.every(this.createDisposableMatcher(dir))) {
+        if (!this.config.dryRun) {
+          await this.fileSystem.createFile(keepFile, '');
+        }
+
+        this.stats.createdFiles.push(keepFile);
+        this.report(dir, { path: dir.path, status: this.config.dryRun ? 'would-fill' : 'filled' }, onProgress, { keepFile });
+      } else {
+        this.report(dir, { path: dir.path, status: 'skipped-not-empty' }, onProgress);
+      }
+    } catch (error) {
+      this.stats.totalErrors++;
+      const message = error instanceof Error ? error.message : String(error);
+      this.stats.errors.push(`Failed to add ${keepFile}: ${message}`);
+      this.report(dir, errorOutcome(dir.path, error, message), onProgress, { keepFile });
+    }
+  }
+
+  // Junk files and the symlinks and hollow files the scanner found removable don't keep a directory
+  private createDisposableMatcher(dir: DirectoryInfo): (item: DirectoryEntry) => boolean {
+    const removableLinks = new Set(dir.removableLinks);
+    const hollowFiles = new Set(dir.hollowFiles);
+    return (item: DirectoryEntry) => item.kind !== 'directory' && (
+      this.isJunkFile(item.name) ||
+      (item.kind === 'symlink' && removableLinks.has(path.join(dir.path, item.name))) ||
+      (item.kind === 'file' && hollowFiles.has(path.join(dir.path, item.name)))
+    );
+  }
+
+  // Hollow files may have been written to since the scan
+  private async areStillHollow(dir: DirectoryInfo, files: string[]): Promise<boolean> {
+    const hollowFiles = new Set(dir.hollowFiles);
+    for (const filePath of files.filter(file => hollowFiles.has(file))) {
+      if (!this.isHollowFile(path.basename(filePath), (await this.fileSystem.stat(filePath)).size)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
   getStats(): RemovalStats {
     return this.stats;
   }
+
+  // Directories actually removed (empty in dry run mode)
+  getRemovedDirectories(): DirectoryInfo[] {
+    return this.removed;
+  }
+}
+
+// Options for scanAndRemove
+export interface ScanAndRemoveOptions {
+  // Workspace folder that exclude patterns and ignore files are resolved from, defaults to rootPath
+  basePath?: string;
+  // Keep rootPath itself even when it ends up empty
+  keepRoot?: boolean;
+}
+
+// Remove empty folders while the scan is still running, excluded directories are reported as outcomes and events
+export async function scanAndRemove(
+  scanner: DirectoryScanner,
+  remover: EmptyFolderRemover,
+  rootPath: string,
+  onProgress: ProgressCallback,
+  token: CancellationToken,
+  options: ScanAndRemoveOptions = {}
+): Promise<RemovalStats> {
+  let scanned = 0;
+  const excluded: string[] = [];
+  const candidates = scanner.scan(rootPath, token, options.basePath ?? rootPath, {
+    onDirectory: () => scanned++,
+    onExcluded: dirPath => {
+      excluded.push(dirPath);
+      onProgress({ path: dirPath, status: 'excluded' });
+    }
+  });
+
+  const stats = await remover.removeEmptyFolders(
+    options.keepRoot ? keepDirectory(candidates, rootPath) : candidates,
+    onProgress,
+    token
+  );
+
+  stats.totalScanned = scanned;
+  for (const dirPath of excluded) {
+    stats.outcomes.push({ path: dirPath, status: 'excluded' });
+  }
+  return stats;
+}
+
+async function* keepDirectory(candidates: AsyncIterable<DirectoryInfo>, dirPath: string): AsyncGenerator<DirectoryInfo> {
+  for await (const dir of candidates) {
+    yield dir.path === dirPath ? { ...dir, isEmpty: false } : dir;
+  }
 }
 
 // Create empty stats object
@@ -221,7 +1287,15 @@ export function createEmptyStats(): RemovalStats {
     totalRemoved: 0,
     totalErrors: 0,
     duration: 0,
-    errors: []
+    errors: [],
+    deletedFiles: [],
+    createdFiles: [],
+    protectedPaths: [],
+    recentPaths: [],
+    gitKeptPaths: [],
+    deleteMode: 'permanent',
+    fallbacks: [],
+    outcomes: []
   };
 }
 
@@ -233,6 +1307,204 @@ export function aggregateStats(statsList: RemovalStats[]): RemovalStats {
     aggregated.totalRemoved += stats.totalRemoved;
     aggregated.totalErrors += stats.totalErrors;
     aggregated.errors.push(...stats.errors);
+    aggregated.deletedFiles.push(...stats.deletedFiles);
+    aggregated.createdFiles.push(...stats.createdFiles);
+    aggregated.protectedPaths.push(...stats.protectedPaths);
+    aggregated.recentPaths.push(...stats.recentPaths);
+    aggregated.gitKeptPaths.push(...stats.gitKeptPaths);
+    aggregated.fallbacks.push(...stats.fallbacks);
+    aggregated.outcomes.push(...stats.outcomes);
+    aggregated.deleteMode = stats.deleteMode;
   }
   return aggregated;
 }
+
+// Find the empty folders left behind by changed paths below basePath
+// Each changed path starts at its nearest existing ancestor and climbs while the directories hold no files.
+// The topmost of those is scanned once with its subtree, and starts inside a scanned subtree reuse that scan
+// Returns every directory below the topmost empty ancestor of each start, depths counted from basePath
+export async function scanAffectedChains(
+  scanner: DirectoryScanner,
+  changedPaths: string[],
+  basePath: string,
+  token: CancellationToken
+): Promise<DirectoryInfo[]> {
+  const isInside = (dirPath: string) => dirPath !== basePath && isSubPath(basePath, dirPath);
+
+  // Many deleted paths share their parents, each directory is looked up once
+  const exists = new Map<string, Promise<boolean>>();
+  const checkExists = (dirPath: string): Promise<boolean> => {
+    let result = exists.get(dirPath);
+    if (!result) {
+      result = scanner.fileSystem.stat(dirPath).then(() => true, () => false);
+      exists.set(dirPath, result);
+    }
+    return result;
+  };
+
+  const starts = new Set<string>();
+  for (const changedDir of new Set(changedPaths.map(changedPath => path.dirname(changedPath)))) {
+    let dirPath = changedDir;
+    while (isInside(dirPath) && !await checkExists(dirPath)) {
+      dirPath = path.dirname(dirPath);
+    }
+    if (isInside(dirPath)) {
+      starts.add(dirPath);
+    }
+  }
+
+  const scanned = new Map<string, DirectoryInfo>();
+  const scannedTops: string[] = [];
+  const roots: string[] = [];
+  const result = new Map<string, DirectoryInfo>();
+  // Deepest first, so the chains below a scanned directory are found in its scan
+  for (const start of Array.from(starts).sort((a, b) => b.length - a.length)) {
+    if (token.isCancellationRequested) {
+      break;
+    }
+    if (roots.some(root => isSubPath(root, start))) {
+      continue;
+    }
+
+    if (!scannedTops.some(top => isSubPath(top, start))) {
+      if (await scanner.isExcludedPath(start, basePath) || await scanner.holdsFiles(start)) {
+        continue;
+      }
+      let top = start;
+      while (isInside(path.dirname(top)) && !await scanner.holdsFiles(path.dirname(top))) {
+        top = path.dirname(top);
+      }
+      for (const dir of await scanner.scanDirectories(top, token, basePath)) {
+        scanned.set(dir.path, dir);
+      }
+      scannedTops.push(top);
+    }
+
+    let root: string | undefined;
+    for (let dirPath = start; isInside(dirPath); dirPath = path.dirname(dirPath)) {
+      const info = scanned.get(dirPath);
+      if (!info || !isRemovable(info)) {
+        break;
+      }
+      root = dirPath;
+    }
+    if (!root) {
+      continue;
+    }
+
+    roots.push(root);
+    for (const dir of scanned.values()) {
+      if (isSubPath(root, dir.path)) {
+        result.set(dir.path, { ...dir, depth: path.relative(basePath, dir.path).split(path.sep).length });
+      }
+    }
+  }
+
+  return Array.from(result.values());
+}
+
+// Keep directories created less than minAgeMs ago, their ancestors are no longer empty
+// Without a birthtime the status change time counts, and directories without either are kept
+export async function applyMinAge(
+  directories: DirectoryInfo[],
+  minAgeMs: number,
+  now: number = Date.now(),
+  fileSystem: FileSystem = nodeFileSystem
+): Promise<DirectoryInfo[]> {
+  if (minAgeMs <= 0) {
+    return directories;
+  }
+
+  const recentPaths = new Set<string>();
+  await Promise.all(directories.filter(dir => dir.isEmpty).map(async dir => {
+    try {
+      const stat = await fileSystem.stat(dir.path);
+      const createdMs = stat.birthtimeMs || stat.ctimeMs;
+      if (createdMs <= 0 || now - createdMs < minAgeMs) {
+        recentPaths.add(dir.path);
+      }
+    } catch {
+      // Directory vanished, the remover reports it
+    }
+  }));
+
+  // Every ancestor of a recent directory holds it
+  const keptAncestors = new Set<string>();
+  for (const recent of recentPaths) {
+    for (let dirPath = path.dirname(recent); !keptAncestors.has(dirPath); dirPath = path.dirname(dirPath)) {
+      keptAncestors.add(dirPath);
+      if (path.dirname(dirPath) === dirPath) {
+        break;
+      }
+    }
+  }
+
+  return directories.map(dir => {
+    if (!dir.isEmpty) {
+      return dir;
+    }
+    if (recentPaths.has(dir.path)) {
+      return { ...dir, isRecent: true };
+    }
+    return keptAncestors.has(dir.path) ? { ...dir, isEmpty: false } : dir;
+  });
+}
+
+// Review tree node interface
+export interface DirectoryTreeNode {
+  info: DirectoryInfo;
+  children: DirectoryTreeNode[];
+}
+
+// Build a directory tree from scan results, keeping only branches that lead to empty folders
+// Results may hold only the empty folders, the folders leading to them are added as non-empty ones
+export function buildDirectoryTree(rootPath: string, directories: DirectoryInfo[]): DirectoryTreeNode | undefined {
+  const nodes = new Map<string, DirectoryTreeNode>();
+  for (const info of directories) {
+    nodes.set(info.path, { info, children: [] });
+  }
+
+  const getNode = (dirPath: string): DirectoryTreeNode => {
+    let node = nodes.get(dirPath);
+    if (!node) {
+      const depth = path.relative(rootPath, dirPath).split(path.sep).filter(Boolean).length;
+      node = { info: { path: dirPath, depth, isEmpty: false }, children: [] };
+      nodes.set(dirPath, node);
+      if (dirPath !== rootPath) {
+        getNode(path.dirname(dirPath)).children.push(node);
+      }
+    }
+    return node;
+  };
+
+  for (const info of directories) {
+    if (info.path !== rootPath && isSubPath(rootPath, info.path)) {
+      getNode(path.dirname(info.path)).children.push(nodes.get(info.path)!);
+    }
+  }
+
+  const root = nodes.get(rootPath);
+  if (!root) {
+    return undefined;
+  }
+
+  // Drop branches without empty folders and sort the rest by name
+  const prune = (node: DirectoryTreeNode): boolean => {
+    node.children = node.children
+      .filter(prune)
+      .sort((a, b) => a.info.path.localeCompare(b.info.path));
+    return node.info.isEmpty || node.children.length > 0;
+  };
+  prune(root);
+
+  return root;
+}
+
+// Collect a node and all of its descendants
+export function flattenDirectoryTree(node: DirectoryTreeNode): DirectoryInfo[] {
+  const result: DirectoryInfo[] = [node.info];
+  for (const child of node.children) {
+    result.push(...flattenDirectoryTree(child));
+  }
+  return result;
+}
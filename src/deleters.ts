@@ -0,0 +1,107 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { createHash } from "crypto";
+import {
+  EmptyFolderConfig,
+  DirectoryDeleter,
+  DeleteMode,
+  createPermanentDeleter,
+  createQuarantineDeleter
+} from "./core";
+import { ConfigResolver } from "./config";
+import { getFileSystem, toWorkspaceUri } from "./workspaceFs";
+
+// Move directories of a workspace folder to the trash, falling back to permanent deletion where trash isn't available
+export function createTrashDeleter(folder: vscode.WorkspaceFolder): DirectoryDeleter {
+  const fallback = createPermanentDeleter(getFileSystem(folder));
+  return {
+    mode: 'trash',
+    async removeDirectory(dirPath: string, junkFiles: string[]): Promise<DeleteMode> {
+      try {
+        // The directory holds only junk files at this point, which go to the trash with it
+        await vscode.workspace.fs.delete(toWorkspaceUri(folder, dirPath), { recursive: true, useTrash: true });
+        return 'trash';
+      } catch {
+        return fallback.removeDirectory(dirPath, junkFiles);
+      }
+    }
+  };
+}
+
+// Quarantine directory for a workspace folder
+// Relative settings resolve against the folder, the default lives in extension storage
+// The default is keyed by the folder's URI too, as workspace folders may share a name
+export function getQuarantineRoot(
+  config: EmptyFolderConfig,
+  folder: vscode.WorkspaceFolder,
+  storageUri: vscode.Uri
+): string {
+  if (config.quarantineDirectory === '') {
+    const folderId = createHash('sha256').update(folder.uri.toString()).digest('hex').slice(0, 8);
+    return path.join(storageUri.fsPath, 'quarantine', `${folder.name}-${folderId}`);
+  }
+  return path.resolve(folder.uri.fsPath, config.quarantineDirectory);
+}
+
+// Deleter for the configured delete mode
+export function createDeleter(
+  config: EmptyFolderConfig,
+  folder: vscode.WorkspaceFolder,
+  storageUri: vscode.Uri
+): DirectoryDeleter {
+  switch (config.deleteMode) {
+    case 'trash':
+      return createTrashDeleter(folder);
+    case 'quarantine':
+      // Quarantined folders are moved with Node's fs, which only reaches local disks
+      if (folder.uri.scheme !== 'file') {
+        throw new Error("Quarantine is only available for folders on disk");
+      }
+      return createQuarantineDeleter(getQuarantineRoot(config, folder, storageUri), folder.uri.fsPath);
+    default:
+      return createPermanentDeleter(getFileSystem(folder));
+  }
+}
+
+// Permanently delete the quarantine directories of all workspace folders
+export async function purgeQuarantine(resolveConfig: ConfigResolver, storageUri: vscode.Uri): Promise<void> {
+  const roots: vscode.Uri[] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const root = vscode.Uri.file(getQuarantineRoot(resolveConfig(folder), folder, storageUri));
+    try {
+      await vscode.workspace.fs.stat(root);
+      roots.push(root);
+    } catch {
+      // Nothing quarantined for this folder
+    }
+  }
+
+  if (roots.length === 0) {
+    vscode.window.showInformationMessage("The empty folder quarantine is empty.");
+    return;
+  }
+
+  const action = await vscode.window.showWarningMessage(
+    `Permanently delete ${roots.length} quarantine director${roots.length !== 1 ? 'ies' : 'y'}? This cannot be undone.`,
+    { modal: true, detail: roots.map(root => root.fsPath).join('\n') },
+    "Purge"
+  );
+  if (action !== "Purge") {
+    return;
+  }
+
+  const errors: string[] = [];
+  for (const root of roots) {
+    try {
+      await vscode.workspace.fs.delete(root, { recursive: true, useTrash: false });
+    } catch (error) {
+      errors.push(`${root.fsPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    vscode.window.showErrorMessage(`Failed to purge quarantine: ${errors.join('; ')}`);
+  } else {
+    vscode.window.showInformationMessage("Purged the empty folder quarantine.");
+  }
+}
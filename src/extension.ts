@@ -1,61 +1,58 @@
 import * as vscode from "vscode";
+import { getConfiguration } from "./config";
 import {
-  EmptyFolderConfig,
-  RemovalStats,
-  DirectoryInfo,
-  DirectoryScanner,
-  EmptyFolderRemover,
-  createEmptyStats
-} from "./core";
-
-// Progress tracking class
-class ProgressTracker {
-  private startTime: number;
-  private processed: number = 0;
-  private total: number = 0;
-
-  constructor(private progress: vscode.Progress<{ message?: string; increment?: number }>) {
-    this.startTime = Date.now();
-  }
-
-  setTotal(total: number): void {
-    this.total = total;
-  }
-
-  update(message: string): void {
-    this.processed++;
-    const percentage = this.total > 0 ? Math.round((this.processed / this.total) * 100) : 0;
-    const elapsed = Date.now() - this.startTime;
-    const eta = this.processed > 0 ? Math.round((elapsed / this.processed) * (this.total - this.processed) / 1000) : 0;
-
-    this.progress.report({
-      message: `${message} (${percentage}%, ETA: ${eta}s)`,
-      increment: this.total > 0 ? (1 / this.total) * 100 : 0
-    });
-  }
-}
-
-// Get configuration from VS Code settings
-function getConfiguration(): EmptyFolderConfig {
-  const config = vscode.workspace.getConfiguration('emptyFoldersRemover');
-
-  return {
-    excludePatterns: config.get('excludePatterns', [
-      '.git', '.vscode', 'node_modules', '.npm', '.yarn',
-      'dist', 'build', '.next', '.nuxt', 'coverage',
-      '__pycache__', '.pytest_cache', '.mypy_cache'
-    ]),
-    maxConcurrency: config.get('maxConcurrency', 10),
-    dryRun: config.get('dryRun', false),
-    showProgress: config.get('showProgress', true)
+  RemovalContext,
+  RemovalTracker,
+  clearScanCache,
+  exportLastRunReport,
+  runCleanup,
+  selectedTargets,
+  undoLastRemoval,
+  workspaceTargets
+} from "./runner";
+import { registerReviewView } from "./reviewView";
+import { RemovalJournal } from "./journal";
+import { AutoCleaner } from "./autoClean";
+import { purgeQuarantine } from "./deleters";
+import { ScanCacheStore } from "./scanCache";
+import { EmptyFolderStatusBar, SHOW_EMPTY_FOLDERS_COMMAND } from "./statusBar";
+import { reviewHollowFolders } from "./hollowFolders";
+import { ScheduledCleaner } from "./scheduler";
+import {
+  CompletedRun,
+  EmptyFoldersRemoverApi,
+  RemoveCommandArgs,
+  applyRunOptions,
+  createApi,
+  resolveCommandTargets,
+  validateCommandArgs
+} from "./api";
+
+// Kept for deactivate, which runs the scheduled cleanup on window close
+let scheduledCleaner: ScheduledCleaner | undefined;
+// Used by that run, VS Code disposes the subscriptions without waiting for deactivate
+let shutdownResources: vscode.Disposable[] = [];
+
+export function activate(context: vscode.ExtensionContext): EmptyFoldersRemoverApi {
+  const journal = new RemovalJournal(context.workspaceState);
+  const storageUri = context.storageUri ?? context.globalStorageUri;
+  const log = vscode.window.createOutputChannel("Empty Folders Remover", { log: true });
+  const runCompleted = new vscode.EventEmitter<CompletedRun>();
+  shutdownResources = [log, runCompleted];
+  const removalContext: RemovalContext = {
+    journal,
+    storageUri,
+    scanCache: new ScanCacheStore(vscode.Uri.joinPath(storageUri, 'scan-cache.json').fsPath),
+    log,
+    runCompleted,
+    removals: new RemovalTracker()
   };
-}
 
-export function activate(context: vscode.ExtensionContext) {
   // Register command to remove empty folders
+  // Keybindings and task inputs may pass targets, a dryRun override and extra exclude patterns
   let disposable = vscode.commands.registerCommand(
     "empty-folders-remover.removeEmptyFolders",
-    async () => {
+    async (args?: RemoveCommandArgs) => {
       const workspaceFolders = vscode.workspace.workspaceFolders;
 
       if (!workspaceFolders) {
@@ -63,125 +60,121 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const config = getConfiguration();
-
-      // Show progress indicator
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: config.dryRun ? "Scanning for empty folders (DRY RUN)..." : "Removing empty folders...",
-          cancellable: true,
-        },
-        async (progress, token) => {
-          try {
-            const progressTracker = new ProgressTracker(progress);
-            const scanner = new DirectoryScanner(config);
-
-            // Aggregate stats across all workspace folders
-            const aggregatedStats: RemovalStats = createEmptyStats();
-            const startTime = Date.now();
-
-            // Phase 1: Scan all workspace folders first
-            const allDirectoriesMap = new Map<string, DirectoryInfo[]>();
-
-            for (const folder of workspaceFolders) {
-              if (token.isCancellationRequested) {
-                vscode.window.showInformationMessage("Operation cancelled by user.");
-                return;
-              }
-
-              progress.report({ message: `Scanning ${folder.name}...` });
-              const directories = await scanner.scanDirectories(folder.uri.fsPath, token);
-              allDirectoriesMap.set(folder.uri.fsPath, directories);
-            }
-
-            if (token.isCancellationRequested) {
-              vscode.window.showInformationMessage("Operation cancelled by user.");
-              return;
-            }
-
-            // Calculate total empty directories across all folders
-            let totalEmpty = 0;
-            for (const directories of allDirectoriesMap.values()) {
-              totalEmpty += directories.filter(d => d.isEmpty).length;
-            }
-            progressTracker.setTotal(totalEmpty);
-
-            // Phase 2: Remove empty folders from all workspace folders
-            for (const folder of workspaceFolders) {
-              if (token.isCancellationRequested) {
-                vscode.window.showInformationMessage("Operation cancelled by user.");
-                return;
-              }
-
-              const directories = allDirectoriesMap.get(folder.uri.fsPath) || [];
-              const remover = new EmptyFolderRemover(config);
-              const stats = await remover.removeEmptyFolders(
-                directories,
-                (msg) => progressTracker.update(msg),
-                token
-              );
-
-              // Aggregate stats
-              aggregatedStats.totalScanned += stats.totalScanned;
-              aggregatedStats.totalRemoved += stats.totalRemoved;
-              aggregatedStats.totalErrors += stats.totalErrors;
-              aggregatedStats.errors.push(...stats.errors);
-            }
-
-            if (token.isCancellationRequested) {
-              vscode.window.showInformationMessage("Operation cancelled by user.");
-              return;
-            }
-
-            aggregatedStats.duration = Date.now() - startTime;
-            await showResults(aggregatedStats, config.dryRun);
-
-          } catch (error) {
-            vscode.window.showErrorMessage(
-              `Error during operation: ${error instanceof Error ? error.message : String(error)}`
-            );
-          }
-        }
-      );
+      const invalidArgs = validateCommandArgs(args);
+      if (invalidArgs) {
+        vscode.window.showErrorMessage(`Invalid arguments for "Remove Empty Folders": ${invalidArgs}`);
+        return;
+      }
+
+      const resolveConfig = applyRunOptions(getConfiguration, args ?? {});
+      const uris = resolveCommandTargets(args?.targets);
+      if (!uris) {
+        await runCleanup(workspaceTargets(workspaceFolders), resolveConfig, removalContext);
+        return;
+      }
+
+      const targets = selectedTargets(uris);
+      if (targets.length === 0) {
+        vscode.window.showErrorMessage("None of the targets is inside the workspace");
+        return;
+      }
+      await runCleanup(targets, resolveConfig, removalContext, true);
     }
   );
 
   context.subscriptions.push(disposable);
-}
 
-async function showResults(stats: RemovalStats, isDryRun: boolean): Promise<void> {
-  const durationSeconds = Math.round(stats.duration / 1000);
-
-  if (stats.totalRemoved === 0 && stats.totalErrors === 0) {
-    vscode.window.showInformationMessage(
-      `No empty folders found. Scanned ${stats.totalScanned} directories in ${durationSeconds}s.`
-    );
-  } else {
-    const message = isDryRun
-      ? `[DRY RUN] Found ${stats.totalRemoved} empty folder${stats.totalRemoved !== 1 ? 's' : ''} that would be removed.`
-      : `Successfully removed ${stats.totalRemoved} empty folder${stats.totalRemoved !== 1 ? 's' : ''}.`;
-
-    const details = `Scanned: ${stats.totalScanned}, Removed: ${stats.totalRemoved}, Errors: ${stats.totalErrors}, Time: ${durationSeconds}s`;
-
-    if (stats.totalErrors > 0) {
-      const action = await vscode.window.showWarningMessage(
-        `${message} ${details}`,
-        "Show Errors"
-      );
-
-      if (action === "Show Errors") {
-        const errorText = stats.errors.join('\n');
-        const doc = await vscode.workspace.openTextDocument({
-          content: errorText,
-          language: 'plaintext'
-        });
-        await vscode.window.showTextDocument(doc);
+  // Register Explorer context menu command to clean selected folder subtrees
+  context.subscriptions.push(vscode.commands.registerCommand(
+    "empty-folders-remover.removeEmptyFoldersHere",
+    async (uri?: vscode.Uri, selectedUris?: vscode.Uri[]) => {
+      const uris = selectedUris && selectedUris.length > 0 ? selectedUris : uri ? [uri] : [];
+      const targets = selectedTargets(uris);
+
+      if (targets.length === 0) {
+        vscode.window.showErrorMessage("Select a folder inside the workspace");
+        return;
       }
-    } else {
-      vscode.window.showInformationMessage(`${message} ${details}`);
+
+      await runCleanup(targets, getConfiguration, removalContext, true);
     }
-  }
+  ));
+
+  // Register command to recreate folders removed by the last run
+  context.subscriptions.push(vscode.commands.registerCommand(
+    "empty-folders-remover.undoLastRemoval",
+    () => undoLastRemoval(journal)
+  ));
+
+  // Register command to permanently delete quarantined folders
+  context.subscriptions.push(vscode.commands.registerCommand(
+    "empty-folders-remover.purgeQuarantine",
+    () => purgeQuarantine(getConfiguration, removalContext.storageUri)
+  ));
+
+  // Register command to save the outcomes of the last run as JSON, Markdown or CSV
+  context.subscriptions.push(vscode.commands.registerCommand(
+    "empty-folders-remover.exportLastRunReport",
+    () => exportLastRunReport(removalContext)
+  ));
+
+  // Register command to forget cached directory listings
+  context.subscriptions.push(vscode.commands.registerCommand(
+    "empty-folders-remover.clearScanCache",
+    () => clearScanCache(removalContext.scanCache)
+  ));
+
+  // Register command to review folders holding only zero-byte or leftover files
+  context.subscriptions.push(vscode.commands.registerCommand(
+    "empty-folders-remover.reviewHollowFolders",
+    () => reviewHollowFolders(removalContext)
+  ));
+
+  // Register the "Empty Folders" review view, runs preview their folders there
+  const reviewProvider = registerReviewView(context, removalContext);
+  removalContext.showReview = scans => reviewProvider.show(scans);
+
+  // Count empty folders in the background and list them from the status bar
+  const statusBar = new EmptyFolderStatusBar(removalContext);
+  context.subscriptions.push(
+    statusBar,
+    vscode.commands.registerCommand(SHOW_EMPTY_FOLDERS_COMMAND, () => statusBar.showEmptyFolders())
+  );
+
+  // Remove folders that become empty after file operations when auto clean is enabled
+  const autoCleaner = new AutoCleaner(removalContext);
+
+  // Run cleanup on workspace open, on window close or on an interval when scheduled
+  scheduledCleaner = new ScheduledCleaner(removalContext, context.workspaceState);
+
+  context.subscriptions.push(
+    autoCleaner,
+    scheduledCleaner,
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('emptyFoldersRemover.autoClean')) {
+        autoCleaner.update();
+      }
+      if (event.affectsConfiguration('emptyFoldersRemover.schedule')) {
+        scheduledCleaner?.update();
+      }
+      // Any setting may change which folders count
+      if (event.affectsConfiguration('emptyFoldersRemover')) {
+        statusBar.update();
+      }
+    })
+  );
+
+  // Scanning and removal for other extensions
+  return createApi(removalContext);
 }
 
-export function deactivate() { }
+export async function deactivate(): Promise<void> {
+  try {
+    await scheduledCleaner?.runOnShutdown();
+  } finally {
+    scheduledCleaner = undefined;
+    for (const resource of shutdownResources.splice(0)) {
+      resource.dispose();
+    }
+  }
+}
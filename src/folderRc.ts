@@ -0,0 +1,146 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { globToRegExp, toPosixPath } from "./glob";
+
+// Per-folder settings file, applies to the subtree below the directory that holds it
+export const FOLDER_RC_FILE = '.emptyfoldersrc';
+
+// Contents of a .emptyfoldersrc file
+export interface FolderRcContent {
+  exclude?: string[];
+  protectedPaths?: string[];
+  disable?: boolean;
+}
+
+// Single pattern, relative to the directory holding the file
+export interface FolderRcRule {
+  regex: RegExp;
+  matchPath: boolean;
+  negated: boolean;
+}
+
+// Parsed .emptyfoldersrc file
+export interface FolderRc {
+  baseDir: string;
+  exclude: FolderRcRule[];
+  protectedPaths: FolderRcRule[];
+  disable?: boolean;
+}
+
+// Patterns with a slash match the path relative to the file's directory, others the basename
+function compileRule(rawPattern: string): FolderRcRule | undefined {
+  const negated = rawPattern.startsWith('!');
+  const pattern = (negated ? rawPattern.slice(1) : rawPattern).replace(/\/+$/, '');
+  if (pattern === '') {
+    return undefined;
+  }
+  return {
+    regex: globToRegExp(pattern.replace(/^\//, ''), { braces: true, caseInsensitive: true }),
+    matchPath: pattern.includes('/'),
+    negated
+  };
+}
+
+function compileRules(value: unknown, field: string): FolderRcRule[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(pattern => typeof pattern !== 'string')) {
+    throw new Error(`"${field}" must be a list of patterns`);
+  }
+  return value.map(compileRule).filter((rule): rule is FolderRcRule => rule !== undefined);
+}
+
+// Parse the contents of a .emptyfoldersrc file, throws when it isn't valid
+export function parseFolderRc(content: string, baseDir: string): FolderRc {
+  const data = JSON.parse(content) as FolderRcContent;
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Expected a JSON object');
+  }
+  if (data.disable !== undefined && typeof data.disable !== 'boolean') {
+    throw new Error('"disable" must be true or false');
+  }
+
+  return {
+    baseDir,
+    exclude: compileRules(data.exclude, 'exclude'),
+    protectedPaths: compileRules(data.protectedPaths, 'protectedPaths'),
+    ...(data.disable !== undefined && { disable: data.disable })
+  };
+}
+
+// Load a .emptyfoldersrc file, returns undefined when there is none
+// A file that can't be read or parsed disables its subtree rather than being ignored
+export async function loadFolderRc(
+  filePath: string,
+  baseDir: string,
+  readFile: (filePath: string) => Promise<string> = file => fs.readFile(file, 'utf8')
+): Promise<FolderRc | undefined> {
+  let content: string;
+  try {
+    content = await readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    return { baseDir, exclude: [], protectedPaths: [], disable: true };
+  }
+
+  try {
+    return parseFolderRc(content, baseDir);
+  } catch {
+    return { baseDir, exclude: [], protectedPaths: [], disable: true };
+  }
+}
+
+// Path of dirPath below the file's directory, undefined when the file doesn't apply to it
+function relativeToRc(rc: FolderRc, dirPath: string): string | undefined {
+  const relativePath = toPosixPath(path.relative(rc.baseDir, dirPath), path.sep);
+  return relativePath === '' || relativePath.startsWith('..') ? undefined : relativePath;
+}
+
+// Decision of the nearest file with a matching pattern, files are ordered from farthest to nearest
+// Returns undefined when no file has a say, so the workspace settings decide
+function matchRules(
+  rcFiles: FolderRc[],
+  dirPath: string,
+  rulesOf: (rc: FolderRc) => FolderRcRule[]
+): boolean | undefined {
+  const dirName = path.basename(dirPath);
+  for (let i = rcFiles.length - 1; i >= 0; i--) {
+    const relativePath = relativeToRc(rcFiles[i], dirPath);
+    if (relativePath === undefined) {
+      continue;
+    }
+
+    // Later patterns win over earlier ones within a file
+    let matched: boolean | undefined;
+    for (const rule of rulesOf(rcFiles[i])) {
+      if (rule.regex.test(rule.matchPath ? relativePath : dirName)) {
+        matched = !rule.negated;
+      }
+    }
+    if (matched !== undefined) {
+      return matched;
+    }
+  }
+  return undefined;
+}
+
+// Whether the nearest file setting "disable" turns cleanup off for dirPath
+export function isDisabledByRc(rcFiles: FolderRc[], dirPath: string): boolean {
+  for (let i = rcFiles.length - 1; i >= 0; i--) {
+    if (rcFiles[i].disable !== undefined && relativeToRc(rcFiles[i], dirPath) !== undefined) {
+      return rcFiles[i].disable!;
+    }
+  }
+  return false;
+}
+
+export function isExcludedByRc(rcFiles: FolderRc[], dirPath: string): boolean | undefined {
+  return matchRules(rcFiles, dirPath, rc => rc.exclude);
+}
+
+export function isProtectedByRc(rcFiles: FolderRc[], dirPath: string): boolean | undefined {
+  return matchRules(rcFiles, dirPath, rc => rc.protectedPaths);
+}
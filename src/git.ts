@@ -0,0 +1,149 @@
+import * as path from "path";
+import { execFile } from "child_process";
+
+// How an empty folder relates to version control
+// untracked: git knows nothing below it
+// ignored: it only holds files that git ignores
+// tracked: the index has paths below it, e.g. a committed .gitkeep or files deleted but not committed
+export type GitFolderStatus = 'untracked' | 'ignored' | 'tracked';
+
+// Git classification of an empty folder
+export interface GitFolderInfo {
+  status: GitFolderStatus;
+  // Removing the folder would change the output of git status
+  changesStatus: boolean;
+}
+
+// What git knows about the files below a directory, paths are absolute
+export interface GitIndex {
+  rootPath: string;
+  // Directories with paths in the index below them
+  trackedDirs: Set<string>;
+  // Directories whose removal shows up in git status, they hold tracked files that are still
+  // on disk or untracked files that aren't ignored
+  changedDirs: Set<string>;
+  // Ignored directories and the directories holding ignored files
+  ignoredDirs: Set<string>;
+  ignoredRoots: Set<string>;
+}
+
+// Runs git in cwd and resolves with its output
+export type GitRunner = (args: string[], cwd: string) => Promise<string>;
+
+// Large repositories list millions of paths
+const MAX_GIT_OUTPUT = 256 * 1024 * 1024;
+
+export const runGit: GitRunner = (args, cwd) => new Promise((resolve, reject) => {
+  execFile('git', args, { cwd, maxBuffer: MAX_GIT_OUTPUT, windowsHide: true }, (error, stdout) => {
+    if (error) {
+      reject(error);
+    } else {
+      resolve(stdout);
+    }
+  });
+});
+
+// Add the directories between rootPath and the entry's parent to dirs
+function addParents(dirs: Set<string>, rootPath: string, entry: string): void {
+  let dir = path.dirname(path.join(rootPath, entry));
+  while (!dirs.has(dir) && dir.length >= rootPath.length && dir !== path.dirname(dir)) {
+    dirs.add(dir);
+    if (dir === rootPath) {
+      break;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+// Read what git knows about the tree below rootPath, undefined when it isn't inside a work tree
+// or git isn't installed
+export async function loadGitIndex(rootPath: string, run: GitRunner = runGit): Promise<GitIndex | undefined> {
+  let listed: string;
+  let ignored: string;
+  try {
+    // -t tags index entries with H (or S, M, ...), deleted ones again with R and untracked ones with ?
+    listed = await run(['ls-files', '-z', '-t', '--cached', '--deleted', '--others', '--exclude-standard'], rootPath);
+    ignored = await run(['ls-files', '-z', '--others', '--ignored', '--exclude-standard', '--directory'], rootPath);
+  } catch {
+    return undefined;
+  }
+
+  const index: GitIndex = {
+    rootPath,
+    trackedDirs: new Set(),
+    changedDirs: new Set(),
+    ignoredDirs: new Set(),
+    ignoredRoots: new Set()
+  };
+
+  const cached = new Set<string>();
+  const deleted = new Set<string>();
+  for (const line of listed.split('\0')) {
+    const tag = line.charAt(0);
+    const entry = line.slice(2);
+    if (entry === '') {
+      continue;
+    }
+    if (tag === '?') {
+      addParents(index.changedDirs, rootPath, entry);
+    } else if (tag === 'R') {
+      deleted.add(entry);
+    } else {
+      cached.add(entry);
+    }
+  }
+  for (const entry of cached) {
+    addParents(index.trackedDirs, rootPath, entry);
+    if (!deleted.has(entry)) {
+      addParents(index.changedDirs, rootPath, entry);
+    }
+  }
+
+  // Ignored directories are listed once with a trailing slash instead of file by file
+  for (const entry of ignored.split('\0')) {
+    if (entry.endsWith('/')) {
+      index.ignoredRoots.add(path.join(rootPath, entry.slice(0, -1)));
+    }
+    if (entry !== '') {
+      addParents(index.ignoredDirs, rootPath, entry.replace(/\/$/, ''));
+    }
+  }
+
+  return index;
+}
+
+function isInsideIgnored(index: GitIndex, dirPath: string): boolean {
+  for (let dir = dirPath; dir.length >= index.rootPath.length; dir = path.dirname(dir)) {
+    if (index.ignoredRoots.has(dir)) {
+      return true;
+    }
+    if (dir === index.rootPath || dir === path.dirname(dir)) {
+      break;
+    }
+  }
+  return false;
+}
+
+// Classify an empty folder below the index's root
+export function classifyGitFolder(index: GitIndex, dirPath: string): GitFolderInfo {
+  const changesStatus = index.changedDirs.has(dirPath);
+  let status: GitFolderStatus = 'untracked';
+  if (index.trackedDirs.has(dirPath)) {
+    status = 'tracked';
+  } else if (!changesStatus && (index.ignoredDirs.has(dirPath) || isInsideIgnored(index, dirPath))) {
+    status = 'ignored';
+  }
+  return { status, changesStatus };
+}
+
+const GIT_STATUS_LABELS: Record<GitFolderStatus, string> = {
+  untracked: 'untracked',
+  ignored: 'only ignored files',
+  tracked: 'parent of tracked paths'
+};
+
+// Classification for tooltips, e.g. "parent of tracked paths, removal shows in git status"
+export function describeGitStatus(info: GitFolderInfo): string {
+  const label = GIT_STATUS_LABELS[info.status];
+  return info.changesStatus ? `${label}, removal shows in git status` : label;
+}
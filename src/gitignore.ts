@@ -0,0 +1,87 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { globToRegexSource, toPosixPath } from "./glob";
+
+// Single parsed .gitignore pattern
+export interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+}
+
+// Rules from one ignore file, relative to the directory that holds it
+export interface IgnoreRuleSet {
+  baseDir: string;
+  rules: IgnoreRule[];
+}
+
+// Parse the contents of a .gitignore file
+export function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    let negated = false;
+    if (line.startsWith('!')) {
+      negated = true;
+      line = line.slice(1);
+    } else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+      line = line.slice(1);
+    }
+
+    // Only directories are matched, so a trailing slash changes nothing
+    line = line.replace(/\/+$/, '');
+    if (line === '') {
+      continue;
+    }
+
+    // A slash at the beginning or middle anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+
+    const prefix = anchored ? '^' : '(?:^|/)';
+    rules.push({ regex: new RegExp(prefix + globToRegexSource(line) + '$'), negated });
+  }
+
+  return rules;
+}
+
+// Check a directory against ignore rule sets ordered from farthest to nearest
+export function isIgnored(ruleSets: IgnoreRuleSet[], dirPath: string): boolean {
+  let ignored = false;
+
+  for (const ruleSet of ruleSets) {
+    const relativePath = toPosixPath(path.relative(ruleSet.baseDir, dirPath), path.sep);
+    if (relativePath === '' || relativePath.startsWith('..')) {
+      continue;
+    }
+
+    // Later rules win over earlier ones
+    for (const rule of ruleSet.rules) {
+      if (rule.regex.test(relativePath)) {
+        ignored = !rule.negated;
+      }
+    }
+  }
+
+  return ignored;
+}
+
+// Load an ignore file, returns undefined when it is missing or unreadable
+// readFile lets scanners on other file systems provide the contents
+export async function loadIgnoreFile(
+  filePath: string,
+  baseDir: string,
+  readFile: (filePath: string) => Promise<string> = file => fs.readFile(file, 'utf8')
+): Promise<IgnoreRuleSet | undefined> {
+  try {
+    const content = await readFile(filePath);
+    return { baseDir, rules: parseGitignore(content) };
+  } catch {
+    return undefined;
+  }
+}
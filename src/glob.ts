@@ -0,0 +1,99 @@
+// Glob translation options
+export interface GlobOptions {
+  braces?: boolean;
+  caseInsensitive?: boolean;
+}
+
+export function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+// Translate a glob into a regex source
+// Supports *, ?, [abc], [!abc], ** as a path segment and optionally {a,b}
+export function globToRegexSource(glob: string, options: GlobOptions = {}): string {
+  let source = '';
+  let braceDepth = 0;
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const segmentStart = i === 0 || glob[i - 1] === '/';
+        const followedBySlash = glob[i + 2] === '/';
+        const atEnd = i + 2 === glob.length;
+
+        if (segmentStart && followedBySlash) {
+          // "**/" matches zero or more directories
+          source += '(?:.*/)?';
+          i += 3;
+          continue;
+        }
+        if (segmentStart && i > 0 && atEnd) {
+          // Trailing "/**" matches everything inside
+          source += '.+';
+          i += 2;
+          continue;
+        }
+      }
+      source += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        source += '\\[';
+        i++;
+        continue;
+      }
+      let body = glob.slice(i + 1, close);
+      if (body.startsWith('!')) {
+        body = '^' + body.slice(1);
+      }
+      source += '[' + body.replace(/\\/g, '\\\\') + ']';
+      i = close + 1;
+    } else if (char === '{' && options.braces) {
+      braceDepth++;
+      source += '(?:';
+      i++;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+      i++;
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+      i++;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegex(glob[i + 1]);
+      i += 2;
+    } else {
+      source += escapeRegex(char);
+      i++;
+    }
+  }
+
+  // Unbalanced braces are treated literally
+  if (braceDepth > 0) {
+    return globToRegexSource(glob, { ...options, braces: false });
+  }
+
+  return source;
+}
+
+// Compile a glob into an anchored regex
+export function globToRegExp(glob: string, options: GlobOptions = {}): RegExp {
+  return new RegExp('^' + globToRegexSource(glob, options) + '$', options.caseInsensitive ? 'i' : '');
+}
+
+// Check whether a pattern uses any glob syntax
+export function hasGlobSyntax(pattern: string): boolean {
+  return /[*?[{\\]/.test(pattern);
+}
+
+// Convert a native path to forward slashes for matching
+export function toPosixPath(filePath: string, separator: string): string {
+  return separator === '/' ? filePath : filePath.split(separator).join('/');
+}
@@ -0,0 +1,128 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DirectoryInfo, isSubPath, selectHollowRoots } from "./core";
+import { getConfiguration } from "./config";
+import {
+  FolderScan,
+  RemovalContext,
+  createCachedScanner,
+  removeReviewedScans,
+  saveScanCache
+} from "./runner";
+
+// Files listed in the confirmation before the rest is summarized
+const MAX_LISTED_FILES = 20;
+
+// Quick pick entry for a hollow folder and everything below it
+interface HollowFolderItem extends vscode.QuickPickItem {
+  scan: FolderScan;
+  info: DirectoryInfo;
+  files: string[];
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? 's' : ''}`;
+}
+
+// Hollow scan of every workspace folder, returns undefined when cancelled
+async function scanHollowFolders(
+  removalContext: RemovalContext,
+  progress: vscode.Progress<{ message?: string }>,
+  token: vscode.CancellationToken
+): Promise<FolderScan[] | undefined> {
+  const scans: FolderScan[] = [];
+  try {
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      progress.report({ message: `Scanning ${folder.name}...` });
+      const scanner = await createCachedScanner(folder, getConfiguration(folder), removalContext.scanCache);
+      const directories = await scanner.scanHollowDirectories(folder.uri.fsPath, token);
+      scans.push({ folder, rootPath: folder.uri.fsPath, directories });
+    }
+  } finally {
+    await saveScanCache(removalContext.scanCache);
+  }
+  return token.isCancellationRequested ? undefined : scans;
+}
+
+// List folders holding only hollow files (zero bytes or matching hollowFiles) and remove the ones
+// picked after a confirmation. Hollow folders are never removed by other commands or auto clean
+export async function reviewHollowFolders(removalContext: RemovalContext): Promise<void> {
+  if (!vscode.workspace.workspaceFolders) {
+    vscode.window.showErrorMessage("No workspace folder is opened");
+    return;
+  }
+
+  const scans = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Looking for hollow folders...", cancellable: true },
+    (progress, token) => scanHollowFolders(removalContext, progress, token)
+  );
+  if (!scans) {
+    return;
+  }
+
+  const multiRoot = scans.length > 1;
+  const items: HollowFolderItem[] = [];
+  for (const scan of scans) {
+    for (const info of selectHollowRoots(scan.directories)) {
+      const files = scan.directories
+        .filter(dir => isSubPath(info.path, dir.path))
+        .flatMap(dir => dir.hollowFiles ?? []);
+      items.push({
+        label: `$(folder) ${path.relative(scan.folder.uri.fsPath, info.path)}`,
+        description: [multiRoot ? scan.folder.name : '', pluralize(files.length, 'file')].filter(Boolean).join(' · '),
+        detail: files.slice(0, 3).map(file => path.relative(info.path, file)).join(', '),
+        scan,
+        info,
+        files
+      });
+    }
+  }
+
+  if (items.length === 0) {
+    vscode.window.showInformationMessage("No hollow folders found.");
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: "Hollow Folders",
+    placeHolder: "Select folders to remove together with their empty or placeholder files",
+    canPickMany: true,
+    matchOnDetail: true
+  });
+  if (!selected || selected.length === 0) {
+    return;
+  }
+
+  // Hollow files may still matter to someone, so removal always asks first
+  const files = selected.flatMap(item => item.files);
+  const listed = files.slice(0, MAX_LISTED_FILES).map(file => vscode.workspace.asRelativePath(file));
+  if (files.length > MAX_LISTED_FILES) {
+    listed.push(`...and ${files.length - MAX_LISTED_FILES} more`);
+  }
+  const action = await vscode.window.showWarningMessage(
+    `Remove ${pluralize(selected.length, 'hollow folder')} and delete ${pluralize(files.length, 'file')} in them?`,
+    {
+      modal: true,
+      detail: [
+        ...listed,
+        '',
+        "Files matching hollowFiles are deleted whatever their size. Undo only recreates the folders, not the files."
+      ].join('\n')
+    },
+    "Remove"
+  );
+  if (action !== "Remove") {
+    return;
+  }
+
+  const selectedScans: FolderScan[] = [];
+  for (const scan of scans) {
+    const roots = selected.filter(item => item.scan === scan).map(item => item.info.path);
+    const directories = scan.directories.filter(dir => roots.some(root => isSubPath(root, dir.path)));
+    if (directories.length > 0) {
+      selectedScans.push({ ...scan, directories });
+    }
+  }
+
+  await removeReviewedScans(selectedScans, "Removing hollow folders...", removalContext);
+}
@@ -0,0 +1,82 @@
+import * as fs from "fs/promises";
+import { StateStorage } from "./stateStorage";
+
+// Maximum number of removal runs kept for undo
+export const MAX_JOURNAL_RUNS = 10;
+
+const JOURNAL_KEY = 'removalJournal';
+
+// Single removed directory
+export interface JournalEntry {
+  path: string;
+  depth: number;
+  workspaceFolder: string;
+}
+
+// All directories removed by one run
+export interface JournalRun {
+  timestamp: number;
+  entries: JournalEntry[];
+}
+
+// Result of recreating removed directories
+export interface RestoreResult {
+  restored: string[];
+  conflicts: string[];
+  errors: string[];
+}
+
+// Persisted history of removal runs
+export class RemovalJournal {
+  constructor(private storage: StateStorage, private maxRuns: number = MAX_JOURNAL_RUNS) { }
+
+  // Runs ordered from newest to oldest
+  getRuns(): JournalRun[] {
+    return this.storage.get<JournalRun[]>(JOURNAL_KEY) ?? [];
+  }
+
+  async record(entries: JournalEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    const runs = [{ timestamp: Date.now(), entries }, ...this.getRuns()].slice(0, this.maxRuns);
+    await this.storage.update(JOURNAL_KEY, runs);
+  }
+
+  // Recreate the directories of the newest run and drop it from the history
+  async undoLast(): Promise<{ run: JournalRun; result: RestoreResult } | undefined> {
+    const [run, ...rest] = this.getRuns();
+    if (!run) {
+      return undefined;
+    }
+    const result = await restoreDirectories(run.entries);
+    await this.storage.update(JOURNAL_KEY, rest);
+    return { run, result };
+  }
+}
+
+// Recreate directories from parents down to children
+export async function restoreDirectories(entries: JournalEntry[]): Promise<RestoreResult> {
+  const result: RestoreResult = { restored: [], conflicts: [], errors: [] };
+  const sorted = [...entries].sort((a, b) => a.depth - b.depth);
+
+  for (const entry of sorted) {
+    try {
+      // Never touch anything that exists at the original location now
+      await fs.lstat(entry.path);
+      result.conflicts.push(entry.path);
+      continue;
+    } catch {
+      // Path is free, recreate it below
+    }
+
+    try {
+      await fs.mkdir(entry.path, { recursive: true });
+      result.restored.push(entry.path);
+    } catch (error) {
+      result.errors.push(`Failed to restore ${entry.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,140 @@
+import * as path from "path";
+import { DeleteMode, FolderOutcome, FolderOutcomeStatus, KeepFilePolicy, RemovalStats } from "./core";
+import { toPosixPath } from "./glob";
+
+export type ReportFormat = 'json' | 'markdown' | 'csv';
+
+// File extension for each report format
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  json: 'json',
+  markdown: 'md',
+  csv: 'csv'
+};
+
+// Outcomes of a run within one workspace folder, paths are relative to the folder
+export interface FolderReport {
+  name: string;
+  path: string;
+  scanned: number;
+  removed: number;
+  errors: number;
+  outcomes: FolderOutcome[];
+}
+
+// Report of a complete removal run
+export interface RunReport {
+  timestamp: number;
+  dryRun: boolean;
+  cancelled: boolean;
+  deleteMode: DeleteMode;
+  keepFilePolicy: KeepFilePolicy;
+  folders: FolderReport[];
+}
+
+// Stats of a single scan target and the workspace folder it belongs to
+export interface FolderStats {
+  name: string;
+  path: string;
+  stats: RemovalStats;
+}
+
+// Group stats by workspace folder, several targets may share a folder
+export function createFolderReports(folderStats: FolderStats[]): FolderReport[] {
+  const reports = new Map<string, FolderReport>();
+
+  for (const { name, path: folderPath, stats } of folderStats) {
+    let report = reports.get(folderPath);
+    if (!report) {
+      report = { name, path: folderPath, scanned: 0, removed: 0, errors: 0, outcomes: [] };
+      reports.set(folderPath, report);
+    }
+
+    report.scanned += stats.totalScanned;
+    report.removed += stats.totalRemoved;
+    report.errors += stats.totalErrors;
+    for (const outcome of stats.outcomes) {
+      report.outcomes.push({ ...outcome, path: toPosixPath(path.relative(folderPath, outcome.path), path.sep) || '.' });
+    }
+  }
+
+  for (const report of reports.values()) {
+    report.outcomes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+  return Array.from(reports.values());
+}
+
+// Number of outcomes per status, in the order statuses first appear
+export function countOutcomes(outcomes: FolderOutcome[]): Map<FolderOutcomeStatus, number> {
+  const counts = new Map<FolderOutcomeStatus, number>();
+  for (const outcome of outcomes) {
+    counts.set(outcome.status, (counts.get(outcome.status) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function formatReport(report: RunReport, format: ReportFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2) + '\n';
+    case 'markdown':
+      return formatMarkdown(report);
+    case 'csv':
+      return formatCsv(report);
+  }
+}
+
+// Delete mode of a run, or fill, marked when it was a dry run
+export function describeMode(report: RunReport): string {
+  const mode = report.keepFilePolicy === 'fill' ? 'fill' : report.deleteMode;
+  return report.dryRun ? `${mode} (dry run)` : mode;
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatMarkdown(report: RunReport): string {
+  const lines = [
+    '# Empty Folders Report',
+    '',
+    `- Date: ${new Date(report.timestamp).toISOString()}`,
+    `- Mode: ${describeMode(report)}`
+  ];
+  if (report.cancelled) {
+    lines.push('- Cancelled: yes');
+  }
+
+  for (const folder of report.folders) {
+    lines.push('', `## ${folder.name}`, '');
+    lines.push(`Scanned: ${folder.scanned}, Removed: ${folder.removed}, Errors: ${folder.errors}`);
+
+    if (folder.outcomes.length === 0) {
+      lines.push('', '_No empty folders found._');
+      continue;
+    }
+
+    const counts = Array.from(countOutcomes(folder.outcomes), ([status, count]) => `${status}: ${count}`);
+    lines.push('', `Outcomes: ${counts.join(', ')}`, '');
+    lines.push('| Folder | Outcome | Git | Code | Message |', '| --- | --- | --- | --- | --- |');
+    for (const outcome of folder.outcomes) {
+      const cells = [`\`${outcome.path}\``, outcome.status, outcome.git ?? '', outcome.code ?? '', outcome.message ?? ''];
+      lines.push(`| ${cells.map(escapeMarkdownCell).join(' | ')} |`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsv(report: RunReport): string {
+  const rows = [['workspaceFolder', 'path', 'status', 'git', 'code', 'message']];
+  for (const folder of report.folders) {
+    for (const outcome of folder.outcomes) {
+      rows.push([folder.name, outcome.path, outcome.status, outcome.git ?? '', outcome.code ?? '', outcome.message ?? '']);
+    }
+  }
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,214 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  DirectoryTreeNode,
+  buildDirectoryTree,
+  isRemovable,
+  flattenDirectoryTree
+} from "./core";
+import { getConfiguration } from "./config";
+import {
+  FolderScan,
+  RemovalContext,
+  scanFolders,
+  removeReviewedScans,
+  workspaceTargets
+} from "./runner";
+import { toWorkspaceUri } from "./workspaceFs";
+import { describeGitStatus } from "./git";
+
+export const REVIEW_VIEW_ID = 'emptyFoldersRemover.review';
+
+// Review tree element: a scanned directory within a workspace folder
+export interface ReviewElement {
+  folder: vscode.WorkspaceFolder;
+  node: DirectoryTreeNode;
+  parent?: ReviewElement;
+}
+
+// Tree data provider for the "Empty Folders" review view
+export class EmptyFoldersTreeProvider implements vscode.TreeDataProvider<ReviewElement> {
+  private changeEmitter = new vscode.EventEmitter<ReviewElement | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  private roots: ReviewElement[] = [];
+  private unchecked = new Set<string>();
+  private loaded = false;
+
+  constructor(private removalContext: RemovalContext) { }
+
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  async refresh(): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+
+    const scans = await vscode.window.withProgress(
+      { location: { viewId: REVIEW_VIEW_ID } },
+      (progress, token) => scanFolders(
+        workspaceTargets(workspaceFolders),
+        getConfiguration,
+        progress,
+        token,
+        this.removalContext.scanCache
+      )
+    );
+    this.load(scans ?? []);
+  }
+
+  // Show scan results of a run in the view instead of scanning again
+  async show(scans: FolderScan[]): Promise<void> {
+    this.load(scans);
+    await vscode.commands.executeCommand(`${REVIEW_VIEW_ID}.focus`);
+  }
+
+  private load(scans: FolderScan[]): void {
+    this.roots = [];
+    for (const scan of scans) {
+      const node = buildDirectoryTree(scan.rootPath, scan.directories);
+      if (node && (node.info.isEmpty || node.children.length > 0)) {
+        this.roots.push({ folder: scan.folder, node });
+      }
+    }
+
+    this.unchecked.clear();
+    this.loaded = true;
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(element: ReviewElement): vscode.TreeItem {
+    const info = element.node.info;
+    const label = element.parent ? path.basename(info.path) : element.folder.name;
+    const removable = isRemovable(info);
+
+    let collapsibleState = vscode.TreeItemCollapsibleState.None;
+    if (element.node.children.length > 0) {
+      // Cascade chains stay collapsed under their topmost empty ancestor
+      collapsibleState = removable
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.Expanded;
+    }
+
+    const item = new vscode.TreeItem(label, collapsibleState);
+    // Nested workspace folders list the same path under each of them
+    item.id = `${element.folder.uri.toString()}|${info.path}`;
+    item.resourceUri = toWorkspaceUri(element.folder, info.path);
+    item.iconPath = vscode.ThemeIcon.Folder;
+    item.tooltip = info.git ? `${info.path}\nGit: ${describeGitStatus(info.git)}` : info.path;
+    item.contextValue = removable ? 'emptyFolder' : 'folder';
+
+    if (info.isEmpty && info.isProtected) {
+      item.description = 'protected';
+    } else if (info.isEmpty && info.isRecent) {
+      item.description = 'too recent';
+    } else if (info.isEmpty && info.isGitKept) {
+      item.description = 'changes git status';
+    }
+
+    if (removable) {
+      item.checkboxState = this.unchecked.has(info.path)
+        ? vscode.TreeItemCheckboxState.Unchecked
+        : vscode.TreeItemCheckboxState.Checked;
+
+      const nested = flattenDirectoryTree(element.node).length - 1;
+      const details = [info.git?.status ?? '', nested > 0 ? `+${nested} nested` : ''].filter(Boolean);
+      item.description = details.join(' · ') || undefined;
+    }
+
+    return item;
+  }
+
+  getChildren(element?: ReviewElement): ReviewElement[] {
+    if (!element) {
+      return this.roots;
+    }
+    return element.node.children.map(node => ({ folder: element.folder, node, parent: element }));
+  }
+
+  getParent(element: ReviewElement): ReviewElement | undefined {
+    return element.parent;
+  }
+
+  setChecked(element: ReviewElement, checked: boolean): void {
+    for (const info of flattenDirectoryTree(element.node)) {
+      if (checked) {
+        this.unchecked.delete(info.path);
+      } else {
+        this.unchecked.add(info.path);
+      }
+    }
+
+    // A parent cannot be removed while one of its children stays
+    if (!checked) {
+      for (let parent = element.parent; parent; parent = parent.parent) {
+        if (isRemovable(parent.node.info)) {
+          this.unchecked.add(parent.node.info.path);
+        }
+      }
+    }
+  }
+
+  handleCheckboxChange(event: vscode.TreeCheckboxChangeEvent<ReviewElement>): void {
+    for (const [element, state] of event.items) {
+      this.setChecked(element, state === vscode.TreeItemCheckboxState.Checked);
+    }
+    this.changeEmitter.fire(undefined);
+  }
+
+  // Checked empty folders grouped by workspace folder
+  getSelectedScans(): FolderScan[] {
+    return this.roots.map(root => ({
+      folder: root.folder,
+      rootPath: root.node.info.path,
+      directories: flattenDirectoryTree(root.node)
+        .filter(info => isRemovable(info) && !this.unchecked.has(info.path))
+    })).filter(scan => scan.directories.length > 0);
+  }
+
+  async deleteSelected(): Promise<void> {
+    const scans = this.getSelectedScans();
+    if (scans.length === 0) {
+      vscode.window.showInformationMessage("No empty folders selected.");
+      return;
+    }
+
+    await removeReviewedScans(scans, "Removing selected empty folders...", this.removalContext);
+
+    await this.refresh();
+  }
+}
+
+// Register the review view and its commands
+export function registerReviewView(
+  context: vscode.ExtensionContext,
+  removalContext: RemovalContext
+): EmptyFoldersTreeProvider {
+  const provider = new EmptyFoldersTreeProvider(removalContext);
+  const treeView = vscode.window.createTreeView(REVIEW_VIEW_ID, {
+    treeDataProvider: provider,
+    manageCheckboxStateManually: true
+  });
+
+  context.subscriptions.push(
+    treeView,
+    treeView.onDidChangeCheckboxState(event => provider.handleCheckboxChange(event)),
+    treeView.onDidChangeVisibility(event => {
+      if (event.visible && !provider.isLoaded) {
+        provider.refresh();
+      }
+    }),
+    vscode.commands.registerCommand("empty-folders-remover.refreshReview", () => provider.refresh()),
+    vscode.commands.registerCommand("empty-folders-remover.deleteSelected", () => provider.deleteSelected()),
+    vscode.commands.registerCommand(
+      "empty-folders-remover.revealInExplorer",
+      (element?: ReviewElement) => {
+        if (element) {
+          return vscode.commands.executeCommand('revealInExplorer', toWorkspaceUri(element.folder, element.node.info.path));
+        }
+      }
+    )
+  );
+
+  return provider;
+}
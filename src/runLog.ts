@@ -0,0 +1,78 @@
+import { FolderEvent, FolderOutcomeStatus } from "./core";
+import { RunReport, countOutcomes, describeMode } from "./report";
+
+// Log methods used by runs, vscode.LogOutputChannel provides them with timestamps and log levels
+export interface Logger {
+  trace(message: string): void;
+  debug(message: string): void;
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+type LogLevel = keyof Logger;
+
+// Changes are logged by default, folders that were left alone only at lower levels
+const STATUS_LEVELS: Record<FolderOutcomeStatus, LogLevel> = {
+  'removed': 'info',
+  'would-remove': 'info',
+  'filled': 'info',
+  'would-fill': 'info',
+  'skipped-not-empty': 'debug',
+  'protected': 'debug',
+  'kept-recent': 'debug',
+  'kept-git': 'debug',
+  'excluded': 'trace',
+  'error': 'error'
+};
+
+// Log a folder event with its full path and workspace folder, e.g.
+// "removed /repo/src/empty (workspace: repo, mode: trash)"
+export function logFolderEvent(logger: Logger, workspaceFolder: string, event: FolderEvent): void {
+  const fields = [`workspace: ${workspaceFolder}`];
+  if (event.deleteMode) {
+    fields.push(`mode: ${event.deleteMode}`);
+  }
+  if (event.keepFile) {
+    fields.push(`keep-file: ${event.keepFile}`);
+  }
+  if (event.git) {
+    fields.push(`git: ${event.git}`);
+  }
+  if (event.code) {
+    fields.push(`code: ${event.code}`);
+  }
+
+  let message = `${event.status} ${event.path} (${fields.join(', ')})`;
+  if (event.message) {
+    message += `: ${event.message}`;
+  }
+
+  const level = event.fallback ? 'warn' : STATUS_LEVELS[event.status];
+  logger[level](event.fallback ? `${message}, the configured delete mode wasn't available` : message);
+
+  for (const junkFile of event.junkFiles ?? []) {
+    logger.trace(`deleted junk file ${junkFile}`);
+  }
+}
+
+// Summary of a finished run, one line for the run and one per workspace folder
+export function logRunSummary(logger: Logger, report: RunReport, durationMs: number): void {
+  const removed = report.folders.reduce((total, folder) => total + folder.removed, 0);
+  const errors = report.folders.reduce((total, folder) => total + folder.errors, 0);
+  const state = report.cancelled ? 'cancelled' : 'finished';
+  logger.info(
+    `Run ${state} after ${Math.round(durationMs / 1000)}s (${describeMode(report)}): ` +
+    `${removed} removed, ${errors} error${errors !== 1 ? 's' : ''}`
+  );
+
+  for (const folder of report.folders) {
+    const counts = Array.from(countOutcomes(folder.outcomes), ([status, count]) => `${status}: ${count}`);
+    const line = `  ${folder.name}: scanned ${folder.scanned}` + (counts.length > 0 ? `, ${counts.join(', ')}` : '');
+    if (folder.errors > 0) {
+      logger.warn(line);
+    } else {
+      logger.info(line);
+    }
+  }
+}
@@ -0,0 +1,772 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  EmptyFolderConfig,
+  DeleteMode,
+  RemovalStats,
+  DirectoryInfo,
+  DirectoryScanner,
+  EmptyFolderRemover,
+  FolderEvent,
+  aggregateStats,
+  createDefaultConfig,
+  describeFolderEvent,
+  isRemovable,
+  removeNestedPaths,
+  scanAndRemove,
+  selectCascadeChains,
+  selectEmptyLeaves
+} from "./core";
+import { JournalEntry, RemovalJournal } from "./journal";
+import { createDeleter } from "./deleters";
+import { ConfigResolver, getConfiguration, getConfirmationConfiguration, isScanCacheEnabled } from "./config";
+import { DirectoryCache, ScanCacheStore } from "./scanCache";
+import { FolderStats, REPORT_EXTENSIONS, ReportFormat, RunReport, createFolderReports, formatReport } from "./report";
+import { logFolderEvent, logRunSummary } from "./runLog";
+import { getFileSystem, toWorkspaceUri } from "./workspaceFs";
+import { CompletedRun } from "./api";
+
+// Directory to scan and the workspace folder it belongs to
+export interface ScanTarget {
+  folder: vscode.WorkspaceFolder;
+  rootPath: string;
+}
+
+// Scan result for a single target
+export interface FolderScan extends ScanTarget {
+  // Empty directories, protected and recent ones included
+  directories: DirectoryInfo[];
+  // Number of directories read, when the scan was run for removal
+  scanned?: number;
+  // Directories skipped by exclude patterns or ignore files
+  excluded?: string[];
+}
+
+export type ProgressReporter = vscode.Progress<{ message?: string; increment?: number }>;
+
+// For runs in the background and API calls, whose callers show their own progress if any
+export const silentProgress: ProgressReporter = { report: () => { } };
+
+// Extension-wide collaborators used by removal runs
+export interface RemovalContext {
+  journal: RemovalJournal;
+  storageUri: vscode.Uri;
+  scanCache: ScanCacheStore;
+  // "Empty Folders Remover" output channel, every folder a run handles is logged there
+  log: vscode.LogOutputChannel;
+  // Report of the most recent run, kept for "Export Last Run Report"
+  lastReport?: RunReport;
+  // Shows scan results in the "Empty Folders" review view
+  showReview?: (scans: FolderScan[]) => Promise<void>;
+  // Fired after every run that wasn't cancelled, for the extension API
+  runCompleted: vscode.EventEmitter<CompletedRun>;
+  // Folders removed by recent runs, auto clean ignores their delete events
+  removals: RemovalTracker;
+}
+
+// How long after a removal its file events still count as the run's own
+const OWN_REMOVAL_WINDOW_MS = 60 * 1000;
+
+// Folders removed by runs in this window, so file watchers can tell them from the user's deletions
+export class RemovalTracker {
+  private removed = new Map<string, number>();
+
+  add(dirPath: string): void {
+    this.removed.set(dirPath, Date.now());
+  }
+
+  // Whether a deleted path is a recently removed folder or a junk file that was inside one
+  has(deletedPath: string): boolean {
+    const now = Date.now();
+    for (const [dirPath, removedAt] of this.removed) {
+      if (now - removedAt > OWN_REMOVAL_WINDOW_MS) {
+        this.removed.delete(dirPath);
+      }
+    }
+    return this.removed.has(deletedPath) || this.removed.has(path.dirname(deletedPath));
+  }
+}
+
+// Progress tracking class
+class ProgressTracker {
+  private startTime: number;
+  private processed: number = 0;
+  private total: number = 0;
+
+  constructor(private progress: ProgressReporter) {
+    this.startTime = Date.now();
+  }
+
+  setTotal(total: number): void {
+    this.total = total;
+  }
+
+  update(event: FolderEvent): void {
+    // Excluded folders are only logged, they weren't counted as work
+    if (event.status === 'excluded') {
+      return;
+    }
+    this.processed++;
+    const message = describeFolderEvent(event);
+
+    // While streaming from a running scan the total isn't known yet
+    if (this.total === 0) {
+      this.progress.report({ message: `${message} (${this.processed} processed)` });
+      return;
+    }
+
+    const percentage = this.total > 0 ? Math.round((this.processed / this.total) * 100) : 0;
+    const elapsed = Date.now() - this.startTime;
+    const eta = this.processed > 0 ? Math.round((elapsed / this.processed) * (this.total - this.processed) / 1000) : 0;
+
+    this.progress.report({
+      message: `${message} (${percentage}%, ETA: ${eta}s)`,
+      increment: this.total > 0 ? (1 / this.total) * 100 : 0
+    });
+  }
+}
+
+// Cancelling is only reported to the user by commands, background runs and API calls stay quiet
+function notifyCancelled(): void {
+  vscode.window.showInformationMessage("Operation cancelled by user.");
+}
+
+// Folders of visible or unsaved editors, which may look empty on disk while still in use
+function getInUseFolders(): string[] {
+  const documents = [
+    ...vscode.window.visibleTextEditors.map(editor => editor.document),
+    ...vscode.workspace.textDocuments.filter(document => document.isDirty)
+  ];
+  return documents
+    .filter(document => document.uri.scheme === 'file')
+    .map(document => path.dirname(document.uri.fsPath));
+}
+
+// Scanner for a workspace folder that protects every workspace folder and keeps folders in use
+export function createWorkspaceScanner(
+  folder: vscode.WorkspaceFolder,
+  config: EmptyFolderConfig,
+  cache?: DirectoryCache
+): DirectoryScanner {
+  const workspaceRoots = (vscode.workspace.workspaceFolders ?? []).map(root => root.uri.fsPath);
+  return new DirectoryScanner(config, workspaceRoots, cache, getInUseFolders(), getFileSystem(folder));
+}
+
+// Workspace scanner that reuses cached directory listings when the scan cache is enabled
+// Listings are cached for folders on disk only, other file systems have no cheap change check
+export async function createCachedScanner(
+  folder: vscode.WorkspaceFolder,
+  config: EmptyFolderConfig,
+  scanCache?: ScanCacheStore
+): Promise<DirectoryScanner> {
+  const useCache = scanCache && isScanCacheEnabled() && folder.uri.scheme === 'file';
+  const cache = useCache ? await scanCache.get(config) : undefined;
+  return createWorkspaceScanner(folder, config, cache);
+}
+
+// The cache only saves time, failing to persist it just means a full scan next time
+export async function saveScanCache(scanCache?: ScanCacheStore): Promise<void> {
+  await scanCache?.save().catch(() => undefined);
+}
+
+// Targets covering whole workspace folders
+export function workspaceTargets(folders: readonly vscode.WorkspaceFolder[]): ScanTarget[] {
+  return folders.map(folder => ({ folder, rootPath: folder.uri.fsPath }));
+}
+
+// Targets for selected folders inside the workspace, nested selections are scanned with their parent
+export function selectedTargets(uris: vscode.Uri[]): ScanTarget[] {
+  const targets: ScanTarget[] = [];
+  for (const rootPath of removeNestedPaths(uris.map(uri => uri.fsPath))) {
+    // Look the folder up by the selected URI, which keeps the scheme of virtual workspaces
+    const selectedUri = uris.find(uri => uri.fsPath === rootPath);
+    const folder = selectedUri && vscode.workspace.getWorkspaceFolder(selectedUri);
+    if (folder) {
+      targets.push({ folder, rootPath });
+    }
+  }
+  return targets;
+}
+
+// Target name relative to its workspace folder, for progress messages
+function describeTarget(target: ScanTarget): string {
+  const folderPath = target.folder.uri.fsPath;
+  return target.rootPath === folderPath
+    ? target.folder.name
+    : path.join(target.folder.name, path.relative(folderPath, target.rootPath));
+}
+
+// Scan targets with the settings of their workspace folder, returns undefined when cancelled
+// Only empty directories are kept, so memory use doesn't grow with the size of the tree
+export async function scanFolders(
+  targets: ScanTarget[],
+  resolveConfig: ConfigResolver,
+  progress: ProgressReporter,
+  token: vscode.CancellationToken,
+  scanCache?: ScanCacheStore
+): Promise<FolderScan[] | undefined> {
+  const scans: FolderScan[] = [];
+
+  try {
+    for (const target of targets) {
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const folderPath = target.folder.uri.fsPath;
+      progress.report({ message: `Scanning ${describeTarget(target)}...` });
+
+      const scanner = await createCachedScanner(target.folder, resolveConfig(target.folder), scanCache);
+      const excluded: string[] = [];
+      const directories: DirectoryInfo[] = [];
+      let scanned = 0;
+      const candidates = scanner.scan(target.rootPath, token, folderPath, {
+        onDirectory: () => scanned++,
+        onExcluded: dirPath => excluded.push(dirPath)
+      });
+      for await (const dir of candidates) {
+        directories.push(dir);
+      }
+      scans.push({ ...target, directories, scanned, excluded });
+    }
+  } finally {
+    await saveScanCache(scanCache);
+  }
+
+  if (token.isCancellationRequested) {
+    return undefined;
+  }
+
+  return scans;
+}
+
+// Remove empty folders target by target, recording the journal and the run report
+// Each target uses the settings of its workspace folder, returns undefined when cancelled
+async function removeTargets<T extends ScanTarget>(
+  targets: T[],
+  resolveConfig: ConfigResolver,
+  token: vscode.CancellationToken,
+  removalContext: RemovalContext,
+  progressTracker: ProgressTracker,
+  remove: (
+    remover: EmptyFolderRemover,
+    target: T,
+    config: EmptyFolderConfig,
+    onProgress: (event: FolderEvent) => void
+  ) => Promise<RemovalStats>
+): Promise<RemovalStats | undefined> {
+  const startTime = Date.now();
+  const statsList: RemovalStats[] = [];
+  const folderStats: FolderStats[] = [];
+  const journalEntries: JournalEntry[] = [];
+  removalContext.log.info(`Run started: ${targets.map(describeTarget).join(', ')}`);
+  try {
+    for (const target of targets) {
+      if (token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const config = resolveConfig(target.folder);
+      const remover = new EmptyFolderRemover(
+        config,
+        createDeleter(config, target.folder, removalContext.storageUri),
+        getFileSystem(target.folder)
+      );
+      const targetStats = await remove(remover, target, config, event => {
+        if (event.status === 'removed') {
+          removalContext.removals.add(event.path);
+        }
+        progressTracker.update(event);
+        logFolderEvent(removalContext.log, target.folder.name, event);
+      });
+      statsList.push(targetStats);
+      folderStats.push({ name: target.folder.name, path: target.folder.uri.fsPath, stats: targetStats });
+
+      // Undo recreates folders with Node's fs, so only folders on disk are journaled
+      for (const dir of target.folder.uri.scheme === 'file' ? remover.getRemovedDirectories() : []) {
+        journalEntries.push({ path: dir.path, depth: dir.depth, workspaceFolder: target.folder.uri.fsPath });
+      }
+    }
+  } finally {
+    // Record whatever was removed, even if the run was cancelled midway
+    await removalContext.journal.record(journalEntries);
+    const config = getRunConfig(targets, resolveConfig);
+    removalContext.lastReport = {
+      timestamp: Date.now(),
+      dryRun: config.dryRun,
+      cancelled: token.isCancellationRequested,
+      deleteMode: config.deleteMode,
+      keepFilePolicy: config.keepFilePolicy,
+      folders: createFolderReports(folderStats)
+    };
+    logRunSummary(removalContext.log, removalContext.lastReport, Date.now() - startTime);
+  }
+
+  if (token.isCancellationRequested) {
+    return undefined;
+  }
+
+  const stats = aggregateStats(statsList);
+  stats.duration = Date.now() - startTime;
+  removalContext.runCompleted.fire({
+    targets: targets.map(target => toWorkspaceUri(target.folder, target.rootPath)),
+    dryRun: getRunConfig(targets, resolveConfig).dryRun,
+    stats
+  });
+  return stats;
+}
+
+// Remove empty folders from scan results, returns undefined when cancelled
+export async function removeFromScans(
+  scans: FolderScan[],
+  resolveConfig: ConfigResolver,
+  progress: ProgressReporter,
+  token: vscode.CancellationToken,
+  removalContext: RemovalContext
+): Promise<RemovalStats | undefined> {
+  const progressTracker = new ProgressTracker(progress);
+
+  // Calculate total empty directories across all folders
+  let totalEmpty = 0;
+  for (const scan of scans) {
+    totalEmpty += resolveConfig(scan.folder).keepFilePolicy === 'fill'
+      ? selectEmptyLeaves(scan.directories).length
+      : scan.directories.filter(isRemovable).length;
+  }
+  progressTracker.setTotal(totalEmpty);
+
+  return removeTargets(scans, resolveConfig, token, removalContext, progressTracker, async (remover, scan, _config, onProgress) => {
+    const stats = await remover.removeEmptyFolders(scan.directories, onProgress, token);
+    stats.totalScanned = scan.scanned ?? stats.totalScanned;
+    for (const dirPath of scan.excluded ?? []) {
+      stats.outcomes.push({ path: dirPath, status: 'excluded' });
+      onProgress({ path: dirPath, status: 'excluded' });
+    }
+    return stats;
+  });
+}
+
+// Scan targets and remove their empty folders while the scan is still running
+// Selected targets keep their root unless their folder's removeSelectedFolder is set
+// Returns undefined when cancelled
+export async function scanAndRemoveTargets(
+  targets: ScanTarget[],
+  resolveConfig: ConfigResolver,
+  progress: ProgressReporter,
+  token: vscode.CancellationToken,
+  removalContext: RemovalContext,
+  selected: boolean = false
+): Promise<RemovalStats | undefined> {
+  const progressTracker = new ProgressTracker(progress);
+
+  try {
+    return await removeTargets(targets, resolveConfig, token, removalContext, progressTracker, async (remover, target, config, onProgress) => {
+      const scanner = await createCachedScanner(target.folder, config, removalContext.scanCache);
+      progress.report({ message: `Scanning ${describeTarget(target)}...` });
+      return scanAndRemove(scanner, remover, target.rootPath, onProgress, token, {
+        basePath: target.folder.uri.fsPath,
+        keepRoot: selected && !config.removeSelectedFolder
+      });
+    });
+  } finally {
+    await saveScanCache(removalContext.scanCache);
+  }
+}
+
+async function openPlainText(lines: string[]): Promise<void> {
+  const doc = await vscode.workspace.openTextDocument({
+    content: lines.join('\n'),
+    language: 'plaintext'
+  });
+  await vscode.window.showTextDocument(doc);
+}
+
+const REMOVAL_TITLES: Record<DeleteMode, string> = {
+  permanent: "Removing empty folders...",
+  trash: "Moving empty folders to trash...",
+  quarantine: "Quarantining empty folders..."
+};
+
+// Settings that describe a run as a whole, taken from the first target's workspace folder
+export function getRunConfig(targets: ScanTarget[], resolveConfig: ConfigResolver): EmptyFolderConfig {
+  return targets.length > 0 ? resolveConfig(targets[0].folder) : createDefaultConfig();
+}
+
+// Settings for removing folders the user has already reviewed, the review itself is the preview
+export function getReviewedConfig(folder: vscode.WorkspaceFolder): EmptyFolderConfig {
+  const config = getConfiguration(folder);
+  return {
+    ...config,
+    dryRun: false,
+    keepFilePolicy: config.keepFilePolicy === 'fill' ? 'respect' : config.keepFilePolicy
+  };
+}
+
+// Cascades listed in the confirmation dialog
+const MAX_LISTED_CHAINS = 5;
+
+// Selected targets keep their root unless their folder's removeSelectedFolder is set
+export function keepSelectedRoots(scans: FolderScan[], resolveConfig: ConfigResolver): FolderScan[] {
+  return scans.map(scan => resolveConfig(scan.folder).removeSelectedFolder ? scan : {
+    ...scan,
+    directories: scan.directories.map(dir => dir.path === scan.rootPath ? { ...dir, isEmpty: false } : dir)
+  });
+}
+
+// Folders removing the scans would remove, per workspace folder name
+function countRemovals(scans: FolderScan[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const scan of scans) {
+    counts.set(scan.folder.name, (counts.get(scan.folder.name) ?? 0) + scan.directories.filter(isRemovable).length);
+  }
+  return counts;
+}
+
+function sumCounts(counts: Map<string, number>): number {
+  return Array.from(counts.values()).reduce((total, count) => total + count, 0);
+}
+
+// Refuse runs that skip the confirmation dialog, such as auto clean, scheduled runs or reviewed removals,
+// when they would remove more than maxRemovalsPerRun folders. Returns why the run was aborted, which is logged as well
+export function checkRemovalLimit(scans: FolderScan[], runName: string, removalContext: RemovalContext): string | undefined {
+  const { maxRemovalsPerRun } = getConfirmationConfiguration();
+  const total = sumCounts(countRemovals(scans));
+  if (maxRemovalsPerRun <= 0 || total <= maxRemovalsPerRun) {
+    return undefined;
+  }
+  const reason = `${runName} would remove ${pluralizeFolders(total)}, more than maxRemovalsPerRun (${maxRemovalsPerRun}) allows. Nothing was removed`;
+  removalContext.log.warn(reason);
+  return reason;
+}
+
+// Ask before removing more than confirmAbove folders and refuse more than maxRemovalsPerRun
+// Both offer to preview the folders in the review view, returns whether to remove them
+export async function confirmRemoval(scans: FolderScan[], removalContext: RemovalContext): Promise<boolean> {
+  const { confirmAbove, maxRemovalsPerRun } = getConfirmationConfiguration();
+
+  const counts = countRemovals(scans);
+  const total = sumCounts(counts);
+
+  if (maxRemovalsPerRun > 0 && total > maxRemovalsPerRun) {
+    const action = await vscode.window.showErrorMessage(
+      `Found ${pluralizeFolders(total)}, more than maxRemovalsPerRun (${maxRemovalsPerRun}) allows. Nothing was removed.`,
+      "Preview"
+    );
+    if (action === "Preview") {
+      await removalContext.showReview?.(scans);
+    }
+    return false;
+  }
+  if (total <= confirmAbove) {
+    return true;
+  }
+
+  const chains = scans
+    .flatMap(scan => selectCascadeChains(scan.directories).map(chain => ({
+      name: path.join(scan.folder.name, path.relative(scan.folder.uri.fsPath, chain.root.path)),
+      ...chain
+    })))
+    .sort((a, b) => b.folders - a.folders || b.levels - a.levels)
+    .slice(0, MAX_LISTED_CHAINS);
+  const detail = [
+    ...Array.from(counts, ([name, count]) => `${name}: ${count}`),
+    '',
+    "Largest cascades:",
+    ...chains.map(chain => `${chain.name}: ${chain.folders} folder${chain.folders !== 1 ? 's' : ''}, ${chain.levels} level${chain.levels !== 1 ? 's' : ''} deep`)
+  ].join('\n');
+
+  const action = await vscode.window.showWarningMessage(
+    `Remove ${pluralizeFolders(total)}?`,
+    { modal: true, detail },
+    "Remove",
+    "Preview First"
+  );
+  if (action === "Preview First") {
+    await removalContext.showReview?.(scans);
+  }
+  return action === "Remove";
+}
+
+// Remove folders the user has already reviewed with a progress notification, then show the results
+export async function removeReviewedScans(
+  scans: FolderScan[],
+  title: string,
+  removalContext: RemovalContext
+): Promise<void> {
+  const limitReason = checkRemovalLimit(scans, "The selection", removalContext);
+  if (limitReason) {
+    vscode.window.showErrorMessage(`${limitReason}.`);
+    return;
+  }
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      try {
+        const stats = await removeFromScans(scans, getReviewedConfig, progress, token, removalContext);
+        if (!stats) {
+          notifyCancelled();
+          return;
+        }
+        await showResults(stats, getRunConfig(scans, getReviewedConfig), removalContext.log);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error during operation: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+// Scan targets and remove their empty folders with a progress notification
+// Runs that delete folders scan first, so large removals can be confirmed before anything is gone
+export async function runCleanup(
+  targets: ScanTarget[],
+  resolveConfig: ConfigResolver,
+  removalContext: RemovalContext,
+  selected: boolean = false
+): Promise<void> {
+  const config = getRunConfig(targets, resolveConfig);
+  const deletes = targets.some(target => {
+    const targetConfig = resolveConfig(target.folder);
+    return !targetConfig.dryRun && targetConfig.keepFilePolicy !== 'fill';
+  });
+
+  let scans: FolderScan[] | undefined;
+  if (deletes) {
+    try {
+      scans = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Scanning for empty folders...",
+          cancellable: true,
+        },
+        (progress, token) => scanFolders(targets, resolveConfig, progress, token, removalContext.scanCache)
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error during operation: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return;
+    }
+    if (!scans) {
+      notifyCancelled();
+      return;
+    }
+    if (selected) {
+      scans = keepSelectedRoots(scans, resolveConfig);
+    }
+    if (!await confirmRemoval(scans, removalContext)) {
+      return;
+    }
+  }
+
+  let title = REMOVAL_TITLES[config.deleteMode];
+  if (config.keepFilePolicy === 'fill') {
+    title = "Adding keep files to empty folders...";
+  }
+  if (config.dryRun) {
+    title = "Scanning for empty folders (DRY RUN)...";
+  }
+
+  // Show progress indicator
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      try {
+        // Runs that only preview or fill handle folders while the scan is still running
+        const stats = scans
+          ? await removeFromScans(scans, resolveConfig, progress, token, removalContext)
+          : await scanAndRemoveTargets(targets, resolveConfig, progress, token, removalContext, selected);
+        if (!stats) {
+          notifyCancelled();
+          return;
+        }
+
+        await showResults(stats, config, removalContext.log);
+
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error during operation: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  );
+}
+
+export function pluralizeFolders(count: number): string {
+  return `${count} empty folder${count !== 1 ? 's' : ''}`;
+}
+
+export async function showResults(
+  stats: RemovalStats,
+  config: EmptyFolderConfig,
+  log: vscode.LogOutputChannel
+): Promise<void> {
+  const durationSeconds = Math.round(stats.duration / 1000);
+  const isDryRun = config.dryRun;
+  const fill = config.keepFilePolicy === 'fill';
+
+  const kept = stats.protectedPaths.length + stats.recentPaths.length + stats.gitKeptPaths.length;
+  if (stats.totalRemoved === 0 && stats.createdFiles.length === 0 && stats.totalErrors === 0 && kept === 0) {
+    vscode.window.showInformationMessage(
+      `No empty folders found. Scanned ${stats.totalScanned} directories in ${durationSeconds}s.`
+    );
+  } else {
+    let message: string;
+    if (fill) {
+      message = isDryRun
+        ? `[DRY RUN] Found ${pluralizeFolders(stats.createdFiles.length)} that would get a keep file.`
+        : `Added keep files to ${pluralizeFolders(stats.createdFiles.length)}.`;
+    } else if (isDryRun) {
+      message = `[DRY RUN] Found ${pluralizeFolders(stats.totalRemoved)} that would be removed.`;
+    } else if (stats.deleteMode === 'trash') {
+      message = `Moved ${pluralizeFolders(stats.totalRemoved)} to the trash.`;
+    } else if (stats.deleteMode === 'quarantine') {
+      message = `Quarantined ${pluralizeFolders(stats.totalRemoved)}.`;
+    } else {
+      message = `Successfully removed ${pluralizeFolders(stats.totalRemoved)}.`;
+    }
+
+    const processed = fill
+      ? `Filled: ${stats.createdFiles.length}`
+      : `Removed: ${stats.totalRemoved}`;
+    let details = `Scanned: ${stats.totalScanned}, ${processed}, Errors: ${stats.totalErrors}, Time: ${durationSeconds}s`;
+    if (stats.deletedFiles.length > 0) {
+      details += `, Junk files: ${stats.deletedFiles.length}`;
+    }
+    if (stats.protectedPaths.length > 0) {
+      details += `, Protected: ${stats.protectedPaths.length}`;
+    }
+    if (stats.recentPaths.length > 0) {
+      details += `, Kept (too recent): ${stats.recentPaths.length}`;
+    }
+    if (stats.gitKeptPaths.length > 0) {
+      details += `, Kept (changes git status): ${stats.gitKeptPaths.length}`;
+    }
+    if (stats.fallbacks.length > 0) {
+      details += `, Trash unavailable, permanently deleted: ${stats.fallbacks.length}`;
+    }
+
+    const actions: string[] = [];
+    if (stats.totalErrors > 0) {
+      actions.push("Show Errors");
+    }
+    if (stats.deletedFiles.length > 0) {
+      actions.push("Show Deleted Files");
+    }
+    if (stats.fallbacks.length > 0) {
+      actions.push("Show Fallbacks");
+    }
+    actions.push("Show Log");
+
+    const action = stats.totalErrors > 0 || stats.fallbacks.length > 0
+      ? await vscode.window.showWarningMessage(`${message} ${details}`, ...actions)
+      : await vscode.window.showInformationMessage(`${message} ${details}`, ...actions);
+
+    if (action === "Show Errors") {
+      await openPlainText(stats.errors);
+    } else if (action === "Show Deleted Files") {
+      await openPlainText(stats.deletedFiles);
+    } else if (action === "Show Fallbacks") {
+      await openPlainText(stats.fallbacks);
+    } else if (action === "Show Log") {
+      log.show();
+    }
+  }
+}
+
+// Drop cached directory listings so the next run reads every directory again
+export async function clearScanCache(scanCache: ScanCacheStore): Promise<void> {
+  try {
+    await scanCache.clear();
+    vscode.window.showInformationMessage("Empty folder scan cache cleared.");
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to clear scan cache: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// Undo the most recent removal run recorded in the journal
+export async function undoLastRemoval(journal: RemovalJournal): Promise<void> {
+  const undone = await journal.undoLast();
+  if (!undone) {
+    vscode.window.showInformationMessage("No empty folder removal to undo.");
+    return;
+  }
+
+  const { restored, conflicts, errors } = undone.result;
+  const message = `Restored ${restored.length} of ${undone.run.entries.length} empty folder${undone.run.entries.length !== 1 ? 's' : ''}.`;
+
+  if (conflicts.length === 0 && errors.length === 0) {
+    vscode.window.showInformationMessage(message);
+    return;
+  }
+
+  const action = await vscode.window.showWarningMessage(
+    `${message} Not restored: ${conflicts.length} already exist, ${errors.length} failed.`,
+    "Show Details"
+  );
+
+  if (action === "Show Details") {
+    await openPlainText([
+      ...conflicts.map(p => `Already exists: ${p}`),
+      ...errors
+    ]);
+  }
+}
+
+const REPORT_FORMATS: { label: string; description: string; format: ReportFormat }[] = [
+  { label: "JSON", description: "Machine-readable, for scripts and CI", format: 'json' },
+  { label: "Markdown", description: "Tables to attach to pull requests", format: 'markdown' },
+  { label: "CSV", description: "One row per folder, for spreadsheets", format: 'csv' }
+];
+
+// Write the report of the most recent run to a file chosen by the user
+export async function exportLastRunReport(removalContext: RemovalContext): Promise<void> {
+  const report = removalContext.lastReport;
+  if (!report) {
+    vscode.window.showInformationMessage("No cleanup run to report yet.");
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(REPORT_FORMATS, { placeHolder: "Report format" });
+  if (!picked) {
+    return;
+  }
+
+  const extension = REPORT_EXTENSIONS[picked.format];
+  const baseUri = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const fileName = `empty-folders-report.${extension}`;
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: baseUri ? vscode.Uri.joinPath(baseUri, fileName) : undefined,
+    filters: { [picked.label]: [extension] },
+    saveLabel: "Export Report"
+  });
+  if (!uri) {
+    return;
+  }
+
+  try {
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(formatReport(report, picked.format), 'utf8'));
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Failed to export report: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  const action = await vscode.window.showInformationMessage(`Report saved to ${uri.fsPath}.`, "Open");
+  if (action === "Open") {
+    await vscode.window.showTextDocument(uri);
+  }
+}
@@ -0,0 +1,152 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { EmptyFolderConfig } from "./core";
+
+// Bump when the cache file layout changes, older files are discarded
+export const SCAN_CACHE_VERSION = 3;
+
+// Directories modified this recently may still change within the same mtime tick
+const RACY_MTIME_MS = 2000;
+
+// What the scanner needs to know about a directory without reading it again
+export interface DirectoryListing {
+  subdirectories: string[];
+  symlinks: string[];
+  hasFiles: boolean;
+  hasGitignore: boolean;
+  hasRcFile: boolean;
+}
+
+export interface CachedDirectory extends DirectoryListing {
+  mtimeMs: number;
+}
+
+// On-disk cache file
+interface ScanCacheFile {
+  version: number;
+  fingerprint: string;
+  directories: Record<string, CachedDirectory>;
+}
+
+// Settings that change how a listing is computed, a different fingerprint drops the cache
+export function createCacheFingerprint(config: EmptyFolderConfig): string {
+  return JSON.stringify([config.junkFiles, config.keepFiles, config.keepFilePolicy]);
+}
+
+// Directory listings keyed by path, valid as long as the directory mtime is unchanged
+export class DirectoryCache {
+  private entries: Map<string, CachedDirectory>;
+  private dirty = false;
+
+  constructor(readonly fingerprint: string, directories: Record<string, CachedDirectory> = {}) {
+    this.entries = new Map(Object.entries(directories));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get isDirty(): boolean {
+    return this.dirty;
+  }
+
+  get(dirPath: string, mtimeMs: number): DirectoryListing | undefined {
+    const entry = this.entries.get(dirPath);
+    return entry && entry.mtimeMs === mtimeMs ? entry : undefined;
+  }
+
+  // readAt is when the directory was read, racily modified directories aren't cached
+  set(dirPath: string, mtimeMs: number, listing: DirectoryListing, readAt: number = Date.now()): void {
+    const previous = this.entries.get(dirPath);
+    if (previous) {
+      // Subdirectories that are gone take their cached subtree with them
+      const current = new Set(listing.subdirectories);
+      for (const name of previous.subdirectories) {
+        if (!current.has(name)) {
+          this.deleteSubtree(path.join(dirPath, name));
+        }
+      }
+    }
+
+    if (readAt - mtimeMs < RACY_MTIME_MS) {
+      this.dirty = this.entries.delete(dirPath) || this.dirty;
+      return;
+    }
+
+    this.entries.set(dirPath, { mtimeMs, ...listing });
+    this.dirty = true;
+  }
+
+  clear(): void {
+    this.dirty = this.dirty || this.entries.size > 0;
+    this.entries.clear();
+  }
+
+  private deleteSubtree(dirPath: string): void {
+    const entry = this.entries.get(dirPath);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(dirPath);
+    this.dirty = true;
+    for (const name of entry.subdirectories) {
+      this.deleteSubtree(path.join(dirPath, name));
+    }
+  }
+
+  // Load a cache file, a missing, corrupt or outdated file yields an empty cache
+  static async load(filePath: string, fingerprint: string): Promise<DirectoryCache> {
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf8')) as ScanCacheFile;
+      if (data.version === SCAN_CACHE_VERSION && data.fingerprint === fingerprint && data.directories) {
+        return new DirectoryCache(fingerprint, data.directories);
+      }
+    } catch {
+      // Start from scratch
+    }
+    return new DirectoryCache(fingerprint);
+  }
+
+  async save(filePath: string): Promise<void> {
+    const data: ScanCacheFile = {
+      version: SCAN_CACHE_VERSION,
+      fingerprint: this.fingerprint,
+      directories: Object.fromEntries(this.entries)
+    };
+
+    // Write to a temporary file first so an interrupted save can't leave a truncated cache
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempFile = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(data));
+    await fs.rename(tempFile, filePath);
+    this.dirty = false;
+  }
+}
+
+// Keeps the cache of one workspace in memory between runs and persists it to filePath
+export class ScanCacheStore {
+  private cache: DirectoryCache | undefined;
+
+  constructor(private filePath: string) { }
+
+  // Cache for the given settings, loaded from disk on first use
+  async get(config: EmptyFolderConfig): Promise<DirectoryCache> {
+    const fingerprint = createCacheFingerprint(config);
+    if (!this.cache || this.cache.fingerprint !== fingerprint) {
+      this.cache = await DirectoryCache.load(this.filePath, fingerprint);
+    }
+    return this.cache;
+  }
+
+  async save(): Promise<void> {
+    if (this.cache?.isDirty) {
+      await this.cache.save(this.filePath);
+    }
+  }
+
+  // Forget all cached listings, in memory and on disk
+  async clear(): Promise<void> {
+    this.cache = undefined;
+    await fs.rm(this.filePath, { force: true });
+  }
+}
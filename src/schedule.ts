@@ -0,0 +1,30 @@
+import { StateStorage } from "./stateStorage";
+
+// Start of the last scheduled run, so reloads and restarts don't run it again
+const LAST_RUN_KEY = 'scheduledCleanup.lastRun';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// When the scheduled cleanup of a workspace last ran and when it is due again, kept in workspace state
+export class ScheduleState {
+  constructor(private storage: StateStorage) { }
+
+  getLastRun(): number | undefined {
+    return this.storage.get<number>(LAST_RUN_KEY);
+  }
+
+  // Time until the next run is due, zero or less once it is
+  getRemainingMs(intervalHours: number, now: number = Date.now()): number {
+    const lastRun = this.getLastRun();
+    return lastRun === undefined ? 0 : lastRun + intervalHours * HOUR_MS - now;
+  }
+
+  isDue(intervalHours: number, now: number = Date.now()): boolean {
+    return this.getRemainingMs(intervalHours, now) <= 0;
+  }
+
+  // Runs are recorded as they start, so a run that never finishes isn't retried right away
+  async recordRun(now: number = Date.now()): Promise<void> {
+    await this.storage.update(LAST_RUN_KEY, now);
+  }
+}
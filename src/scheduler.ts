@@ -0,0 +1,182 @@
+import * as vscode from "vscode";
+import { RemovalStats, isRemovable } from "./core";
+import { ConfigResolver, ScheduleConfig, getConfiguration, getScheduleConfiguration } from "./config";
+import {
+  ProgressReporter,
+  RemovalContext,
+  ScanTarget,
+  checkRemovalLimit,
+  pluralizeFolders,
+  removeFromScans,
+  removeReviewedScans,
+  scanFolders,
+  silentProgress,
+  workspaceTargets
+} from "./runner";
+import { StateStorage } from "./stateStorage";
+import { ScheduleState } from "./schedule";
+
+// Startup runs wait a little, so they don't compete with the editor loading
+const STARTUP_DELAY_MS = 5000;
+
+// Timers drift while the machine sleeps, so long waits are checked again every hour
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+// Settings of scheduled runs that remove folders, schedule.dryRun replaces dryRun
+const getScheduledConfig: ConfigResolver = folder => ({ ...getConfiguration(folder), dryRun: false });
+
+// Runs the scan and remove pipeline on workspace open, on window close or on an interval
+// Scheduled runs only preview by default and offer to remove what they found
+export class ScheduledCleaner implements vscode.Disposable {
+  private timer: NodeJS.Timeout | undefined;
+  private tokenSource: vscode.CancellationTokenSource | undefined;
+  private running = false;
+  private state: ScheduleState;
+
+  constructor(private removalContext: RemovalContext, storage: StateStorage) {
+    this.state = new ScheduleState(storage);
+    this.update();
+  }
+
+  // Start or stop the schedule according to the current settings
+  update(): void {
+    this.stop();
+    const config = getScheduleConfiguration();
+    if (config.trigger === 'startup' || config.trigger === 'interval') {
+      this.tokenSource = new vscode.CancellationTokenSource();
+      this.timer = setTimeout(() => this.check(), STARTUP_DELAY_MS);
+    }
+  }
+
+  // Run before the window closes, called from deactivate
+  // There is no window left to ask, so this only runs when scheduled runs remove folders
+  async runOnShutdown(): Promise<void> {
+    const config = getScheduleConfiguration();
+    if (config.trigger !== 'shutdown' || config.dryRun || !this.state.isDue(config.intervalHours)) {
+      return;
+    }
+
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || this.running) {
+      return;
+    }
+
+    this.running = true;
+    const tokenSource = new vscode.CancellationTokenSource();
+    try {
+      await this.state.recordRun();
+      await this.removeUnattended(workspaceTargets(folders), silentProgress, tokenSource.token);
+    } catch (error) {
+      // No window is left to show it, deactivate keeps the log open until this run ends
+      this.removalContext.log.error(
+        `Scheduled cleanup on shutdown failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      tokenSource.dispose();
+      this.running = false;
+    }
+  }
+
+  private stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    this.tokenSource?.cancel();
+    this.tokenSource?.dispose();
+    this.tokenSource = undefined;
+  }
+
+  private schedule(config: ScheduleConfig): void {
+    clearTimeout(this.timer);
+    const delay = Math.min(Math.max(this.state.getRemainingMs(config.intervalHours), 0), MAX_TIMER_MS);
+    this.timer = setTimeout(() => this.check(), delay);
+  }
+
+  private async check(): Promise<void> {
+    const token = this.tokenSource?.token;
+    if (!token) {
+      return;
+    }
+
+    const config = getScheduleConfiguration();
+    if (this.state.isDue(config.intervalHours) && !this.running) {
+      this.running = true;
+      try {
+        await this.state.recordRun();
+        await this.run(config, token);
+      } catch (error) {
+        this.removalContext.log.error(
+          `Scheduled cleanup failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      } finally {
+        this.running = false;
+      }
+    }
+
+    // Startup runs happen once per window, intervals keep going while it is open
+    if (config.trigger === 'interval' && !token.isCancellationRequested) {
+      this.schedule(config);
+    }
+  }
+
+  private async run(config: ScheduleConfig, token: vscode.CancellationToken): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders) {
+      return;
+    }
+    const targets = workspaceTargets(folders);
+
+    if (!config.dryRun) {
+      const stats = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Window, title: "Scheduled empty folder cleanup" },
+        progress => this.removeUnattended(targets, progress, token)
+      );
+      if (stats && (stats.totalRemoved > 0 || stats.totalErrors > 0)) {
+        const errors = stats.totalErrors > 0 ? `, ${stats.totalErrors} failed` : '';
+        vscode.window.setStatusBarMessage(`Scheduled cleanup: removed ${pluralizeFolders(stats.totalRemoved)}${errors}`, 5000);
+      }
+      return;
+    }
+
+    // Preview: scan only, removing is up to the user
+    const scans = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: "Scheduled empty folder scan" },
+      progress => scanFolders(targets, getConfiguration, progress, token, this.removalContext.scanCache)
+    );
+    const count = (scans ?? []).reduce((total, scan) => total + scan.directories.filter(isRemovable).length, 0);
+    this.removalContext.log.info(`Scheduled scan found ${pluralizeFolders(count)}`);
+    if (!scans || count === 0) {
+      return;
+    }
+
+    const removeAction = `Remove ${count} Folder${count !== 1 ? 's' : ''}`;
+    const action = await vscode.window.showInformationMessage(
+      `Scheduled scan found ${pluralizeFolders(count)}.`,
+      removeAction,
+      "Show Log"
+    );
+    if (action === removeAction) {
+      // Accepting the notification is the review
+      await removeReviewedScans(scans, "Removing empty folders...", this.removalContext);
+    } else if (action === "Show Log") {
+      this.removalContext.log.show();
+    }
+  }
+
+  // Scan first and remove without asking, unless there are more folders than maxRemovalsPerRun
+  private async removeUnattended(
+    targets: ScanTarget[],
+    progress: ProgressReporter,
+    token: vscode.CancellationToken
+  ): Promise<RemovalStats | undefined> {
+    const scans = await scanFolders(targets, getScheduledConfig, progress, token, this.removalContext.scanCache);
+    if (!scans || checkRemovalLimit(scans, "Scheduled cleanup", this.removalContext)) {
+      return undefined;
+    }
+    return removeFromScans(scans, getScheduledConfig, progress, token, this.removalContext);
+  }
+
+  dispose(): void {
+    this.stop();
+  }
+}
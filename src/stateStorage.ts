@@ -0,0 +1,5 @@
+// Key-value storage for state kept between sessions, compatible with vscode.Memento
+export interface StateStorage {
+  get<T>(key: string): T | undefined;
+  update(key: string, value: unknown): PromiseLike<void>;
+}
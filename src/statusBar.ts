@@ -0,0 +1,227 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { DirectoryInfo, isRemovable, isSubPath, selectRemovableRoots } from "./core";
+import { getConfiguration, isStatusBarEnabled } from "./config";
+import {
+  FolderScan,
+  RemovalContext,
+  confirmRemoval,
+  createCachedScanner,
+  removeReviewedScans,
+  saveScanCache
+} from "./runner";
+import { toWorkspaceUri } from "./workspaceFs";
+
+export const SHOW_EMPTY_FOLDERS_COMMAND = 'empty-folders-remover.showEmptyFolders';
+
+// Time after the last file event before counting again
+const RESCAN_DELAY_MS = 3000;
+
+// The background scan leaves most file handles to the editor and running commands
+const BACKGROUND_CONCURRENCY = 2;
+
+// Quick pick entry for an empty folder and its empty subfolders
+interface EmptyFolderItem extends vscode.QuickPickItem {
+  folder: vscode.WorkspaceFolder;
+  info: DirectoryInfo;
+}
+
+// Shows the number of empty folders in the status bar, counted by a background scan
+export class EmptyFolderStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem;
+  private listeners: vscode.Disposable[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private tokenSource: vscode.CancellationTokenSource | undefined;
+  private running = false;
+  // Removable folders found by the last completed scan
+  private scans: FolderScan[] = [];
+
+  constructor(private removalContext: RemovalContext) {
+    this.item = vscode.window.createStatusBarItem('emptyFoldersRemover.count', vscode.StatusBarAlignment.Left);
+    this.item.name = "Empty Folders";
+    this.item.command = SHOW_EMPTY_FOLDERS_COMMAND;
+    this.update();
+  }
+
+  // Start or stop counting according to the current settings, a running count starts over
+  update(): void {
+    const enabled = isStatusBarEnabled();
+    if (enabled && !this.tokenSource) {
+      this.start();
+    } else if (!enabled && this.tokenSource) {
+      this.stop();
+    } else if (enabled) {
+      this.schedule();
+    }
+  }
+
+  private start(): void {
+    this.tokenSource = new vscode.CancellationTokenSource();
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+    this.listeners.push(
+      watcher,
+      watcher.onDidCreate(() => this.schedule()),
+      watcher.onDidDelete(() => this.schedule()),
+      vscode.workspace.onDidRenameFiles(() => this.schedule()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.schedule())
+    );
+
+    // The first count waits as well, so it doesn't compete with startup
+    this.schedule();
+  }
+
+  private stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    this.tokenSource?.cancel();
+    this.tokenSource?.dispose();
+    this.tokenSource = undefined;
+
+    for (const listener of this.listeners) {
+      listener.dispose();
+    }
+    this.listeners = [];
+
+    this.scans = [];
+    this.item.hide();
+  }
+
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.refresh(), RESCAN_DELAY_MS);
+  }
+
+  private async refresh(): Promise<void> {
+    const token = this.tokenSource?.token;
+    if (!token) {
+      return;
+    }
+
+    // Let the running count finish, then count again
+    if (this.running) {
+      this.schedule();
+      return;
+    }
+
+    this.running = true;
+    try {
+      const scans: FolderScan[] = [];
+      for (const folder of vscode.workspace.workspaceFolders ?? []) {
+        const config = { ...getConfiguration(folder), maxConcurrency: BACKGROUND_CONCURRENCY };
+        const scanner = await createCachedScanner(folder, config, this.removalContext.scanCache);
+
+        // Only empty folders are streamed, so the count doesn't hold the whole tree in memory
+        const directories: DirectoryInfo[] = [];
+        for await (const dir of scanner.scan(folder.uri.fsPath, token)) {
+          if (isRemovable(dir)) {
+            directories.push(dir);
+          }
+        }
+        scans.push({ folder, rootPath: folder.uri.fsPath, directories });
+      }
+
+      if (!token.isCancellationRequested) {
+        this.scans = scans;
+        this.render();
+      }
+    } catch {
+      // The count is best effort, the next file event retries
+    } finally {
+      this.running = false;
+      await saveScanCache(this.removalContext.scanCache);
+    }
+  }
+
+  private render(): void {
+    const count = this.scans.reduce((total, scan) => total + scan.directories.length, 0);
+    if (count === 0) {
+      this.item.hide();
+      return;
+    }
+
+    this.item.text = `$(folder) ${count}`;
+    this.item.tooltip = `${count} empty folder${count !== 1 ? 's' : ''} in the workspace. Click to review`;
+    this.item.show();
+  }
+
+  // Quick pick of the empty folders found by the last count
+  async showEmptyFolders(): Promise<void> {
+    const multiRoot = (vscode.workspace.workspaceFolders ?? []).length > 1;
+    const revealButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('go-to-file'), tooltip: "Reveal in Explorer" };
+    const removeAllButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: "Remove All" };
+
+    const items: EmptyFolderItem[] = [];
+    for (const scan of this.scans) {
+      for (const info of selectRemovableRoots(scan.directories)) {
+        const nested = scan.directories.filter(dir => dir !== info && isSubPath(info.path, dir.path)).length;
+        const details = [
+          multiRoot ? scan.folder.name : '',
+          info.git?.status ?? '',
+          nested > 0 ? `+${nested} nested` : ''
+        ].filter(Boolean);
+        items.push({
+          label: `$(folder) ${path.relative(scan.folder.uri.fsPath, info.path)}`,
+          description: details.join(' · ') || undefined,
+          buttons: [revealButton],
+          folder: scan.folder,
+          info
+        });
+      }
+    }
+
+    if (items.length === 0) {
+      vscode.window.showInformationMessage("No empty folders found.");
+      return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<EmptyFolderItem>();
+    quickPick.title = "Empty Folders";
+    quickPick.placeholder = "Select folders to remove, or remove all with the trash button";
+    quickPick.canSelectMany = true;
+    quickPick.items = items;
+    quickPick.buttons = [removeAllButton];
+
+    const selected = await new Promise<EmptyFolderItem[] | undefined>(resolve => {
+      quickPick.onDidTriggerButton(() => resolve(items));
+      quickPick.onDidAccept(() => resolve([...quickPick.selectedItems]));
+      quickPick.onDidTriggerItemButton(event => {
+        vscode.commands.executeCommand('revealInExplorer', toWorkspaceUri(event.item.folder, event.item.info.path));
+        resolve(undefined);
+      });
+      quickPick.onDidHide(() => resolve(undefined));
+      quickPick.show();
+    });
+    quickPick.dispose();
+
+    if (selected && selected.length > 0) {
+      await this.remove(selected, selected === items);
+    }
+  }
+
+  // Remove the selected folders together with their empty subfolders, removing all of them is confirmed
+  // like "Remove Empty Folders" is
+  private async remove(selected: EmptyFolderItem[], all: boolean): Promise<void> {
+    const scans: FolderScan[] = [];
+    for (const scan of this.scans) {
+      const roots = selected.filter(item => item.folder === scan.folder).map(item => item.info.path);
+      const directories = scan.directories.filter(dir => roots.some(root => isSubPath(root, dir.path)));
+      if (directories.length > 0) {
+        scans.push({ ...scan, directories });
+      }
+    }
+
+    if (all && !await confirmRemoval(scans, this.removalContext)) {
+      return;
+    }
+    await removeReviewedScans(scans, "Removing empty folders...", this.removalContext);
+
+    this.schedule();
+  }
+
+  dispose(): void {
+    this.stop();
+    this.item.dispose();
+  }
+}
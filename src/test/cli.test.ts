@@ -0,0 +1,104 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { parseArgs, runCli, CliOutput } from "../cli";
+import { CancellationToken } from "../core";
+
+// Capture CLI output lines
+function createOutput(): CliOutput & { out: string[]; err: string[] } {
+  const out: string[] = [];
+  const err: string[] = [];
+  return { out, err, stdout: line => out.push(line), stderr: line => err.push(line) };
+}
+
+function createToken(cancelled = false): CancellationToken {
+  return { isCancellationRequested: cancelled };
+}
+
+describe("CLI", () => {
+  describe("parseArgs", () => {
+    it("should parse flags and paths", () => {
+      const options = parseArgs([
+        "src", "--exclude", "fixtures", "--exclude=tmp*", "--dry-run", "--concurrency", "4", "--json", "lib"
+      ]);
+
+      assert.deepStrictEqual(options.paths, ["src", "lib"]);
+      assert.deepStrictEqual(options.exclude, ["fixtures", "tmp*"]);
+      assert.strictEqual(options.dryRun, true);
+      assert.strictEqual(options.concurrency, 4);
+      assert.strictEqual(options.json, true);
+    });
+
+    it("should reject unknown options and invalid values", () => {
+      assert.throws(() => parseArgs(["--force"]), /Unknown option/);
+      assert.throws(() => parseArgs(["--concurrency", "0"]), /positive integer/);
+      assert.throws(() => parseArgs(["--exclude"]), /Missing value/);
+    });
+  });
+
+  describe("runCli", () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "efr-test-"));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should remove empty folders but keep the given root", async () => {
+      await fs.mkdir(path.join(tempDir, "a", "b"), { recursive: true });
+      await fs.mkdir(path.join(tempDir, "skip-me"));
+
+      const output = createOutput();
+      const code = await runCli([tempDir, "--exclude", "skip-*"], output, createToken());
+
+      assert.strictEqual(code, 0);
+      assert.deepStrictEqual(await fs.readdir(tempDir), ["skip-me"]);
+      assert.match(output.out[output.out.length - 1], /^Removed 2 empty folders\./);
+    });
+
+    it("should print JSON without removing in dry run mode", async () => {
+      await fs.mkdir(path.join(tempDir, "empty"));
+
+      const output = createOutput();
+      const code = await runCli([tempDir, "--dry-run", "--json"], output, createToken());
+
+      assert.strictEqual(code, 0);
+      const result = JSON.parse(output.out.join("\n"));
+      assert.strictEqual(result.dryRun, true);
+      assert.strictEqual(result.totals.totalRemoved, 1);
+      assert.strictEqual(result.roots[0].path, tempDir);
+      assert.deepStrictEqual(result.roots[0].stats.outcomes, [
+        { path: path.join(tempDir, "empty"), status: "would-remove" },
+        { path: tempDir, status: "protected" }
+      ]);
+      await fs.access(path.join(tempDir, "empty")); // Should still exist
+    });
+
+    it("should exit non-zero when errors occur", async () => {
+      const output = createOutput();
+      const code = await runCli([path.join(tempDir, "missing")], output, createToken());
+
+      assert.strictEqual(code, 1);
+      assert.match(output.err.join("\n"), /Not a directory/);
+    });
+
+    it("should exit with usage error code on invalid arguments", async () => {
+      const output = createOutput();
+
+      assert.strictEqual(await runCli(["--nope"], output, createToken()), 2);
+    });
+
+    it("should stop when cancelled", async () => {
+      await fs.mkdir(path.join(tempDir, "empty"));
+
+      const code = await runCli([tempDir], createOutput(), createToken(true));
+
+      assert.strictEqual(code, 130);
+      await fs.access(path.join(tempDir, "empty")); // Should still exist
+    });
+  });
+});
@@ -6,11 +6,31 @@ import {
   DirectoryScanner,
   EmptyFolderRemover,
   EmptyFolderConfig,
+  RemovalStats,
+  DirectoryDeleter,
+  createPermanentDeleter,
+  createQuarantineDeleter,
   CancellationToken,
   createEmptyStats,
   aggregateStats,
-  DirectoryInfo
+  buildDirectoryTree,
+  flattenDirectoryTree,
+  isSubPath,
+  isRemovable,
+  removeNestedPaths,
+  scanAffectedChains,
+  scanAndRemove,
+  selectRemovableRoots,
+  selectCascadeChains,
+  selectHollowRoots,
+  applyMinAge,
+  describeFolderEvent,
+  DirectoryInfo,
+  FolderEvent
 } from "../core";
+import { DirectoryCache } from "../scanCache";
+import { runGit } from "../git";
+import { MemoryFileSystem } from "./memoryFileSystem";
 
 // Helper to create a test directory structure
 async function createTestStructure(basePath: string, structure: Record<string, string | null>): Promise<void> {
@@ -36,6 +56,18 @@ function createTestConfig(overrides: Partial<EmptyFolderConfig> = {}): EmptyFold
     maxConcurrency: 10,
     dryRun: false,
     showProgress: true,
+    respectGitignore: false,
+    junkFiles: [],
+    keepFiles: [".gitkeep", ".keep"],
+    keepFilePolicy: "respect",
+    removeSelectedFolder: false,
+    protectedPaths: [],
+    deleteMode: "permanent",
+    quarantineDirectory: "",
+    symlinks: "treat-as-content",
+    minAgeDays: 0,
+    gitMode: "off",
+    hollowFiles: [],
     ...overrides
   };
 }
@@ -76,6 +108,50 @@ describe("DirectoryScanner", () => {
       assert.strictEqual(scanner.shouldExclude("src"), false);
     });
 
+    it("should treat regex characters literally", () => {
+      const scanner = new DirectoryScanner(createTestConfig({
+        excludePatterns: ["*.cache"]
+      }));
+
+      assert.strictEqual(scanner.shouldExclude("my.cache"), true);
+      assert.strictEqual(scanner.shouldExclude("my-cache"), false);
+    });
+
+    it("should support ?, character classes and braces", () => {
+      const scanner = new DirectoryScanner(createTestConfig({
+        excludePatterns: ["tmp?", "v[0-9]", "{dist,out}-*"]
+      }));
+
+      assert.strictEqual(scanner.shouldExclude("tmp1"), true);
+      assert.strictEqual(scanner.shouldExclude("tmp12"), false);
+      assert.strictEqual(scanner.shouldExclude("v2"), true);
+      assert.strictEqual(scanner.shouldExclude("vx"), false);
+      assert.strictEqual(scanner.shouldExclude("dist-web"), true);
+      assert.strictEqual(scanner.shouldExclude("out-node"), true);
+      assert.strictEqual(scanner.shouldExclude("lib-web"), false);
+    });
+
+    it("should match patterns with a slash against the relative path", () => {
+      const scanner = new DirectoryScanner(createTestConfig({
+        excludePatterns: ["packages/*/fixtures", "**/snapshots"]
+      }));
+
+      assert.strictEqual(scanner.shouldExclude("fixtures", "packages/core/fixtures"), true);
+      assert.strictEqual(scanner.shouldExclude("fixtures", "test/fixtures"), false);
+      assert.strictEqual(scanner.shouldExclude("fixtures", "packages/core/test/fixtures"), false);
+      assert.strictEqual(scanner.shouldExclude("snapshots", "snapshots"), true);
+      assert.strictEqual(scanner.shouldExclude("snapshots", "a/b/snapshots"), true);
+    });
+
+    it("should re-include negated patterns", () => {
+      const scanner = new DirectoryScanner(createTestConfig({
+        excludePatterns: ["fixtures", "!packages/keep/fixtures"]
+      }));
+
+      assert.strictEqual(scanner.shouldExclude("fixtures", "packages/other/fixtures"), true);
+      assert.strictEqual(scanner.shouldExclude("fixtures", "packages/keep/fixtures"), false);
+    });
+
     it("should handle empty exclude patterns", () => {
       const scanner = new DirectoryScanner(createTestConfig({
         excludePatterns: []
@@ -155,6 +231,236 @@ describe("DirectoryScanner", () => {
       assert.ok(paths.some(p => p.includes("src")), "Should scan src");
     });
 
+    it("should report excluded directories", async () => {
+      await fs.mkdir(path.join(tempDir, "node_modules", "package"), { recursive: true });
+      await fs.mkdir(path.join(tempDir, "src"), { recursive: true });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: ["node_modules"] }));
+      const excluded: string[] = [];
+      await scanner.scanDirectories(tempDir, createToken(), tempDir, dirPath => excluded.push(dirPath));
+
+      assert.deepStrictEqual(excluded, [path.join(tempDir, "node_modules")]);
+    });
+
+    it("should treat folders holding only junk files as empty", async () => {
+      await createTestStructure(tempDir, {
+        "junk-only/.DS_Store": "",
+        "junk-only/nested/Thumbs.db": "",
+        "mixed/.DS_Store": "",
+        "mixed/file.txt": "content"
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({
+        excludePatterns: [],
+        junkFiles: [".DS_Store", "thumbs.db"]
+      }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+
+      const junkOnly = directories.find(d => d.path === path.join(tempDir, "junk-only"));
+      const mixed = directories.find(d => d.path === path.join(tempDir, "mixed"));
+
+      assert.strictEqual(junkOnly?.isEmpty, true, "Junk files and junk-only children don't count");
+      assert.strictEqual(mixed?.isEmpty, false);
+    });
+
+    it("should respect keep-files even when they match junk patterns", async () => {
+      await createTestStructure(tempDir, { "placeholder/.gitkeep": "" });
+
+      const scanner = new DirectoryScanner(createTestConfig({
+        excludePatterns: [],
+        junkFiles: [".*"],
+        keepFilePolicy: "respect"
+      }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+
+      const placeholder = directories.find(d => d.path === path.join(tempDir, "placeholder"));
+      assert.strictEqual(placeholder?.isEmpty, false);
+    });
+
+    it("should treat keep-files as junk when pruning", async () => {
+      await createTestStructure(tempDir, { "placeholder/.keep": "" });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [], keepFilePolicy: "prune" }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+
+      const placeholder = directories.find(d => d.path === path.join(tempDir, "placeholder"));
+      assert.strictEqual(placeholder?.isEmpty, true);
+    });
+
+    it("should exclude by relative path during scanning", async () => {
+      await fs.mkdir(path.join(tempDir, "packages", "a", "fixtures", "empty"), { recursive: true });
+      await fs.mkdir(path.join(tempDir, "test", "fixtures", "empty"), { recursive: true });
+
+      const scanner = new DirectoryScanner(createTestConfig({
+        excludePatterns: ["packages/*/fixtures"]
+      }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+      const paths = directories.map(d => d.path);
+
+      assert.ok(!paths.includes(path.join(tempDir, "packages", "a", "fixtures")));
+      assert.ok(paths.includes(path.join(tempDir, "test", "fixtures")));
+    });
+
+    it("should resolve patterns and ignore files from the base path when scanning a subtree", async () => {
+      await createTestStructure(tempDir, {
+        ".gitignore": "generated\n",
+        "packages/a/fixtures/.gitkeep": null,
+        "packages/a/generated/.gitkeep": null,
+        "packages/a/src/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({
+        excludePatterns: ["packages/*/fixtures"],
+        respectGitignore: true
+      }));
+      const subtree = path.join(tempDir, "packages", "a");
+      const directories = await scanner.scanDirectories(subtree, createToken(), tempDir);
+      const paths = directories.map(d => d.path);
+
+      assert.ok(paths.includes(subtree));
+      assert.strictEqual(directories.find(d => d.path === subtree)?.depth, 0);
+      assert.ok(!paths.includes(path.join(subtree, "fixtures")), "Relative pattern should use the base path");
+      assert.ok(!paths.includes(path.join(subtree, "generated")), ".gitignore above the subtree should apply");
+      assert.ok(paths.includes(path.join(subtree, "src")));
+    });
+
+    it("should skip directories ignored by .gitignore files", async () => {
+      await createTestStructure(tempDir, {
+        ".gitignore": "target/\n/out\n",
+        "target/debug/.gitkeep": null,
+        "out/.gitkeep": null,
+        "src/out/.gitkeep": null,
+        "src/generated/.gitkeep": null,
+        "src/.gitignore": "generated\n"
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [], respectGitignore: true }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+      const paths = directories.map(d => d.path);
+
+      assert.ok(!paths.includes(path.join(tempDir, "target")), "Should skip unanchored pattern");
+      assert.ok(!paths.includes(path.join(tempDir, "target", "debug")), "Should not descend into ignored directory");
+      assert.ok(!paths.includes(path.join(tempDir, "out")), "Should skip anchored pattern at root");
+      assert.ok(paths.includes(path.join(tempDir, "src", "out")), "Anchored pattern should not match nested folder");
+      assert.ok(!paths.includes(path.join(tempDir, "src", "generated")), "Should apply nested .gitignore");
+    });
+
+    it("should honour negation and .git/info/exclude", async () => {
+      await createTestStructure(tempDir, {
+        ".git/info/exclude": "tmp-*\n",
+        ".gitignore": "!tmp-keep\n",
+        "tmp-a/.gitkeep": null,
+        "tmp-keep/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [".git"], respectGitignore: true }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+      const paths = directories.map(d => d.path);
+
+      assert.ok(!paths.includes(path.join(tempDir, "tmp-a")), "Should apply .git/info/exclude");
+      assert.ok(paths.includes(path.join(tempDir, "tmp-keep")), "Negated pattern should re-include");
+    });
+
+    it("should detect excluded or ignored ancestors", async () => {
+      await createTestStructure(tempDir, {
+        ".gitignore": "target\n",
+        "target/debug/.gitkeep": null,
+        "node_modules/pkg/.gitkeep": null,
+        "src/lib/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ respectGitignore: true }));
+
+      assert.strictEqual(await scanner.isExcludedPath(path.join(tempDir, "target", "debug"), tempDir), true);
+      assert.strictEqual(await scanner.isExcludedPath(path.join(tempDir, "node_modules", "pkg"), tempDir), true);
+      assert.strictEqual(await scanner.isExcludedPath(path.join(tempDir, "src", "lib"), tempDir), false);
+    });
+
+    it("should ignore .gitignore files when the option is off", async () => {
+      await createTestStructure(tempDir, {
+        ".gitignore": "target\n",
+        "target/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [] }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+
+      assert.ok(directories.some(d => d.path === path.join(tempDir, "target")));
+    });
+
+    it("should apply .emptyfoldersrc files to the subtree below them", async () => {
+      await createTestStructure(tempDir, {
+        "generated/.emptyfoldersrc": "{ \"disable\": true }",
+        "generated/a/.gitkeep": null,
+        "generated/inner/.emptyfoldersrc": "{ \"disable\": false }",
+        "generated/inner/empty/.gitkeep": null,
+        "packages/.emptyfoldersrc": "{ \"exclude\": [\"fixtures\"], \"protectedPaths\": [\"*/slots\"] }",
+        "packages/fixtures/.gitkeep": null,
+        "packages/x/slots/.gitkeep": null,
+        "packages/x/.emptyfoldersrc": "{ \"exclude\": [\"!fixtures\"] }",
+        "packages/x/fixtures/.gitkeep": null,
+        "other/fixtures/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [] }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+      const find = (...segments: string[]) => directories.find(d => d.path === path.join(tempDir, ...segments));
+
+      assert.strictEqual(find("generated", "a"), undefined, "Disabled subtree should be skipped");
+      assert.strictEqual(find("generated", "inner", "empty")?.isEmpty, true, "Nearer file should re-enable");
+      assert.strictEqual(find("packages", "fixtures"), undefined, "Should apply exclusions from the file");
+      assert.ok(find("other", "fixtures"), "Exclusions should not leave the file's subtree");
+      assert.strictEqual(find("packages", "x", "slots")?.isProtected, true);
+      assert.ok(find("packages", "x", "fixtures"), "Nearer negated pattern should re-include");
+      assert.strictEqual(await scanner.isExcludedPath(path.join(tempDir, "generated", "a"), tempDir), true);
+      assert.strictEqual(await scanner.isExcludedPath(path.join(tempDir, "generated", "inner", "empty"), tempDir), false);
+    });
+
+    it("should apply .emptyfoldersrc files above a scanned subtree and disable subtrees of invalid ones", async () => {
+      await createTestStructure(tempDir, {
+        "lib/.emptyfoldersrc": "{ \"exclude\": [\"build\"] }",
+        "lib/sub/build/.gitkeep": null,
+        "broken/.emptyfoldersrc": "{not json",
+        "broken/a/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [] }));
+      const subtree = await scanner.scanDirectories(path.join(tempDir, "lib", "sub"), createToken(), tempDir);
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+
+      assert.ok(!subtree.some(d => d.path === path.join(tempDir, "lib", "sub", "build")));
+      assert.ok(!directories.some(d => d.path === path.join(tempDir, "broken", "a")));
+      assert.strictEqual(await scanner.isExcludedPath(path.join(tempDir, "lib", "sub", "build"), tempDir), true);
+    });
+
+    it("should protect the workspace root", async () => {
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [] }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+
+      const root = directories.find(d => d.path === tempDir);
+      assert.strictEqual(root?.isEmpty, true);
+      assert.strictEqual(root?.isProtected, true);
+    });
+
+    it("should protect nested workspace roots and protectedPaths matches", async () => {
+      await fs.mkdir(path.join(tempDir, "nested-root"), { recursive: true });
+      await fs.mkdir(path.join(tempDir, "packages", "a", "placeholder", "empty"), { recursive: true });
+      await fs.mkdir(path.join(tempDir, "other", "placeholder"), { recursive: true });
+
+      const scanner = new DirectoryScanner(
+        createTestConfig({ excludePatterns: [], protectedPaths: ["packages/*/placeholder"] }),
+        [path.join(tempDir, "nested-root")]
+      );
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+      const find = (...segments: string[]) => directories.find(d => d.path === path.join(tempDir, ...segments));
+
+      assert.strictEqual(find("nested-root")?.isProtected, true);
+      assert.strictEqual(find("packages", "a", "placeholder")?.isProtected, true);
+      assert.strictEqual(find("other", "placeholder")?.isProtected, undefined);
+      assert.strictEqual(find("packages", "a", "placeholder", "empty")?.isEmpty, true, "Children are still removable");
+      assert.strictEqual(find("packages", "a")?.isEmpty, false, "Protected child blocks cascade");
+    });
+
     it("should sort directories by depth (deepest first)", async () => {
       await fs.mkdir(path.join(tempDir, "a", "b", "c"), { recursive: true });
 
@@ -170,6 +476,120 @@ describe("DirectoryScanner", () => {
       }
     });
 
+    it("should stream empty folders with children before parents", async () => {
+      await createTestStructure(tempDir, {
+        "a/b/c/.gitkeep": null,
+        "a/d/.gitkeep": null,
+        "e/file.txt": "content",
+        "e/f/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ maxConcurrency: 2 }));
+      const settled: string[] = [];
+      const candidates: string[] = [];
+      for await (const dir of scanner.scan(tempDir, createToken(), tempDir, { onDirectory: d => settled.push(d.path) })) {
+        assert.ok(dir.isEmpty);
+        candidates.push(dir.path);
+      }
+
+      const relative = candidates.map(p => path.relative(tempDir, p));
+      assert.deepStrictEqual([...relative].sort(), ["a", "a/b", "a/b/c", "a/d", "e/f"].map(p => path.normalize(p)));
+      assert.ok(relative.indexOf(path.join("a", "b", "c")) < relative.indexOf(path.join("a", "b")));
+      assert.ok(relative.indexOf(path.join("a", "b")) < relative.indexOf("a"));
+      assert.strictEqual(settled.length, 7, "Should report non-empty directories to the observer");
+    });
+
+    it("should read at most maxConcurrency directories at once", async () => {
+      const structure: Record<string, null> = {};
+      for (let i = 0; i < 20; i++) {
+        structure[`dir${i}/sub/.gitkeep`] = null;
+      }
+      await createTestStructure(tempDir, structure);
+
+      const originalReaddir = fs.readdir as (...args: unknown[]) => Promise<unknown>;
+      let active = 0;
+      let peak = 0;
+      Object.assign(fs, {
+        readdir: async (...args: unknown[]) => {
+          peak = Math.max(peak, ++active);
+          try {
+            await new Promise(resolve => setImmediate(resolve));
+            return await originalReaddir(...args);
+          } finally {
+            active--;
+          }
+        }
+      });
+
+      try {
+        const scanner = new DirectoryScanner(createTestConfig({ maxConcurrency: 3 }));
+        const directories = await scanner.scanDirectories(tempDir, createToken());
+        assert.strictEqual(directories.length, 41);
+      } finally {
+        Object.assign(fs, { readdir: originalReaddir });
+      }
+
+      assert.ok(peak > 1, "Should read directories in parallel");
+      assert.ok(peak <= 3, `Read ${peak} directories at once`);
+    });
+
+    it("should keep recently touched folders and block their parents", async () => {
+      await createTestStructure(tempDir, { "parent/child/.gitkeep": null });
+      const parent = path.join(tempDir, "parent");
+      const child = path.join(parent, "child");
+
+      const scanner = new DirectoryScanner(createTestConfig({ minAgeDays: 1 }));
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+
+      const childInfo = directories.find(d => d.path === child);
+      assert.strictEqual(childInfo?.isRecent, true);
+      assert.ok(!isRemovable(childInfo!));
+      assert.strictEqual(directories.find(d => d.path === parent)?.isEmpty, false, "Parent can't cascade");
+    });
+
+    it("should keep folders in use like recent ones", async () => {
+      await createTestStructure(tempDir, {
+        "open/.gitkeep": null,
+        "other/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig(), [], undefined, [path.join(tempDir, "open")]);
+      const directories = await scanner.scanDirectories(tempDir, createToken());
+
+      assert.strictEqual(directories.find(d => d.path === path.join(tempDir, "open"))?.isRecent, true);
+      assert.strictEqual(directories.find(d => d.path === path.join(tempDir, "other"))?.isRecent, undefined);
+      assert.strictEqual(directories.find(d => d.path === tempDir)?.isEmpty, false);
+    });
+
+    it("should reuse cached listings until the mtime changes", async () => {
+      const parent = path.join(tempDir, "a");
+      const child = path.join(parent, "b");
+      await fs.mkdir(child, { recursive: true });
+
+      // Old timestamps, so the listings aren't considered racy
+      const past = new Date(Date.now() - 60_000);
+      await fs.utimes(child, past, past);
+      await fs.utimes(parent, past, past);
+
+      const cache = new DirectoryCache("test");
+      const scanner = new DirectoryScanner(createTestConfig(), [], cache);
+      const isEmpty = async (dirPath: string) =>
+        (await scanner.scanDirectories(tempDir, createToken())).find(d => d.path === dirPath)?.isEmpty;
+
+      assert.strictEqual(await isEmpty(parent), true);
+
+      // Same mtime: the cached listing is trusted
+      await fs.writeFile(path.join(child, "file.txt"), "content");
+      await fs.utimes(child, past, past);
+      assert.strictEqual(await isEmpty(child), true);
+
+      // A new mtime re-reads the directory and the parent follows
+      const later = new Date(Date.now() - 30_000);
+      await fs.utimes(child, later, later);
+      assert.strictEqual(await isEmpty(child), false);
+      assert.strictEqual(await isEmpty(parent), false);
+    });
+
     it("should respect cancellation token", async () => {
       await fs.mkdir(path.join(tempDir, "folder1"), { recursive: true });
       await fs.mkdir(path.join(tempDir, "folder2"), { recursive: true });
@@ -204,20 +624,46 @@ describe("EmptyFolderRemover", () => {
       ];
 
       const remover = new EmptyFolderRemover(createTestConfig());
-      const progressMessages: string[] = [];
+      const events: FolderEvent[] = [];
       const stats = await remover.removeEmptyFolders(
         directories,
-        (msg) => progressMessages.push(msg),
+        (event) => events.push(event),
         createToken()
       );
 
       assert.strictEqual(stats.totalRemoved, 1);
       assert.strictEqual(stats.totalErrors, 0);
+      assert.deepStrictEqual(events, [{ path: emptyDir, status: "removed", deleteMode: "permanent" }]);
 
       // Verify directory was actually removed
       await assert.rejects(fs.access(emptyDir), "Directory should be removed");
     });
 
+    it("should report removed directories", async () => {
+      const emptyDir = path.join(tempDir, "empty");
+      await fs.mkdir(emptyDir);
+
+      const directories: DirectoryInfo[] = [
+        { path: emptyDir, depth: 1, isEmpty: true }
+      ];
+
+      const remover = new EmptyFolderRemover(createTestConfig());
+      await remover.removeEmptyFolders(directories, () => {}, createToken());
+
+      assert.deepStrictEqual(remover.getRemovedDirectories(), directories);
+      assert.deepStrictEqual(remover.getStats().outcomes, [{ path: emptyDir, status: "removed" }]);
+    });
+
+    it("should not report removed directories in dry run mode", async () => {
+      const emptyDir = path.join(tempDir, "empty");
+      await fs.mkdir(emptyDir);
+
+      const remover = new EmptyFolderRemover(createTestConfig({ dryRun: true }));
+      await remover.removeEmptyFolders([{ path: emptyDir, depth: 1, isEmpty: true }], () => {}, createToken());
+
+      assert.deepStrictEqual(remover.getRemovedDirectories(), []);
+    });
+
     it("should not remove directories in dry run mode", async () => {
       const emptyDir = path.join(tempDir, "empty");
       await fs.mkdir(emptyDir);
@@ -230,6 +676,7 @@ describe("EmptyFolderRemover", () => {
       const stats = await remover.removeEmptyFolders(directories, () => {}, createToken());
 
       assert.strictEqual(stats.totalRemoved, 1);
+      assert.deepStrictEqual(stats.outcomes, [{ path: emptyDir, status: "would-remove" }]);
 
       // Verify directory still exists
       await fs.access(emptyDir); // Should not throw
@@ -250,9 +697,92 @@ describe("EmptyFolderRemover", () => {
       const stats = await remover.removeEmptyFolders(directories, () => {}, createToken());
 
       assert.strictEqual(stats.totalRemoved, 0, "Should not remove non-empty directory");
+      assert.deepStrictEqual(stats.outcomes, [{ path: dirPath, status: "skipped-not-empty" }]);
       await fs.access(dirPath); // Directory should still exist
     });
 
+    it("should delete junk files together with the folder", async () => {
+      const dirPath = path.join(tempDir, "junk-only");
+      await createTestStructure(tempDir, { "junk-only/.DS_Store": "" });
+
+      const remover = new EmptyFolderRemover(createTestConfig({ junkFiles: [".DS_Store"] }));
+      const stats = await remover.removeEmptyFolders(
+        [{ path: dirPath, depth: 1, isEmpty: true }],
+        () => {},
+        createToken()
+      );
+
+      assert.strictEqual(stats.totalRemoved, 1);
+      assert.deepStrictEqual(stats.deletedFiles, [path.join(dirPath, ".DS_Store")]);
+      await assert.rejects(fs.access(dirPath), "Directory should be removed");
+    });
+
+    it("should keep junk files in dry run mode", async () => {
+      const junkFile = path.join(tempDir, "junk-only", ".DS_Store");
+      await createTestStructure(tempDir, { "junk-only/.DS_Store": "" });
+
+      const remover = new EmptyFolderRemover(createTestConfig({ junkFiles: [".DS_Store"], dryRun: true }));
+      const events: FolderEvent[] = [];
+      const stats = await remover.removeEmptyFolders(
+        [{ path: path.dirname(junkFile), depth: 1, isEmpty: true }],
+        event => events.push(event),
+        createToken()
+      );
+
+      assert.deepStrictEqual(stats.deletedFiles, []);
+      assert.deepStrictEqual(events.map(event => event.junkFiles), [[junkFile]]);
+      await fs.access(junkFile); // Junk file should still exist
+    });
+
+    it("should delete keep-files when pruning", async () => {
+      const dirPath = path.join(tempDir, "placeholder");
+      await createTestStructure(tempDir, { "placeholder/.gitkeep": "" });
+
+      const remover = new EmptyFolderRemover(createTestConfig({ keepFilePolicy: "prune" }));
+      const stats = await remover.removeEmptyFolders(
+        [{ path: dirPath, depth: 1, isEmpty: true }],
+        () => {},
+        createToken()
+      );
+
+      assert.strictEqual(stats.totalRemoved, 1);
+      await assert.rejects(fs.access(dirPath), "Directory should be removed");
+    });
+
+    it("should add keep-files to empty leaves instead of removing in fill mode", async () => {
+      const parent = path.join(tempDir, "parent");
+      const child = path.join(parent, "child");
+      await fs.mkdir(child, { recursive: true });
+
+      const directories: DirectoryInfo[] = [
+        { path: child, depth: 2, isEmpty: true },
+        { path: parent, depth: 1, isEmpty: true }
+      ];
+
+      const remover = new EmptyFolderRemover(createTestConfig({ keepFilePolicy: "fill" }));
+      const stats = await remover.removeEmptyFolders(directories, () => {}, createToken());
+
+      assert.strictEqual(stats.totalRemoved, 0);
+      assert.deepStrictEqual(stats.createdFiles, [path.join(child, ".gitkeep")]);
+      await fs.access(path.join(child, ".gitkeep"));
+      await assert.rejects(fs.access(path.join(parent, ".gitkeep")), "Only leaves get a keep-file");
+    });
+
+    it("should not write keep-files in dry run fill mode", async () => {
+      const emptyDir = path.join(tempDir, "empty");
+      await fs.mkdir(emptyDir);
+
+      const remover = new EmptyFolderRemover(createTestConfig({ keepFilePolicy: "fill", dryRun: true }));
+      const stats = await remover.removeEmptyFolders(
+        [{ path: emptyDir, depth: 1, isEmpty: true }],
+        () => {},
+        createToken()
+      );
+
+      assert.strictEqual(stats.createdFiles.length, 1);
+      assert.deepStrictEqual(await fs.readdir(emptyDir), []);
+    });
+
     it("should remove nested empty directories (children before parents)", async () => {
       const parent = path.join(tempDir, "parent");
       const child = path.join(parent, "child");
@@ -270,6 +800,86 @@ describe("EmptyFolderRemover", () => {
       await assert.rejects(fs.access(parent), "Parent should be removed");
     });
 
+    it("should skip and report protected directories", async () => {
+      const emptyDir = path.join(tempDir, "protected");
+      await fs.mkdir(emptyDir);
+
+      const remover = new EmptyFolderRemover(createTestConfig());
+      const stats = await remover.removeEmptyFolders(
+        [{ path: emptyDir, depth: 0, isEmpty: true, isProtected: true }],
+        () => {},
+        createToken()
+      );
+
+      assert.strictEqual(stats.totalRemoved, 0);
+      assert.deepStrictEqual(stats.protectedPaths, [emptyDir]);
+      await fs.access(emptyDir); // Directory should still exist
+    });
+
+    it("should skip and report recent directories", async () => {
+      const recentDir = path.join(tempDir, "recent");
+      await fs.mkdir(recentDir);
+
+      const remover = new EmptyFolderRemover(createTestConfig());
+      const stats = await remover.removeEmptyFolders(
+        [{ path: recentDir, depth: 1, isEmpty: true, isRecent: true }],
+        () => {},
+        createToken()
+      );
+
+      assert.strictEqual(stats.totalRemoved, 0);
+      assert.deepStrictEqual(stats.recentPaths, [recentDir]);
+      assert.deepStrictEqual(stats.outcomes, [{ path: recentDir, status: "kept-recent" }]);
+      await fs.access(recentDir);
+    });
+
+    it("should quarantine directories keeping their relative layout", async () => {
+      const quarantine = path.join(tempDir, "quarantine");
+      const workspace = path.join(tempDir, "workspace");
+      const emptyDir = path.join(workspace, "a", "empty");
+      await createTestStructure(workspace, { "a/empty/.DS_Store": "junk" });
+
+      const remover = new EmptyFolderRemover(
+        createTestConfig({ junkFiles: [".DS_Store"] }),
+        createQuarantineDeleter(quarantine, workspace)
+      );
+      const stats = await remover.removeEmptyFolders(
+        [{ path: emptyDir, depth: 2, isEmpty: true }],
+        () => {},
+        createToken()
+      );
+
+      assert.strictEqual(stats.totalRemoved, 1);
+      assert.strictEqual(stats.deleteMode, "quarantine");
+      await assert.rejects(fs.access(emptyDir), "Directory should be moved away");
+      assert.strictEqual(await fs.readFile(path.join(quarantine, "a", "empty", ".DS_Store"), "utf8"), "junk");
+    });
+
+    it("should report fallbacks to another delete mode", async () => {
+      const emptyDir = path.join(tempDir, "empty");
+      await fs.mkdir(emptyDir);
+
+      const unavailableTrash: DirectoryDeleter = {
+        mode: "trash",
+        async removeDirectory(dirPath) {
+          await fs.rmdir(dirPath);
+          return "permanent";
+        }
+      };
+      const events: FolderEvent[] = [];
+      const remover = new EmptyFolderRemover(createTestConfig(), unavailableTrash);
+      const stats = await remover.removeEmptyFolders(
+        [{ path: emptyDir, depth: 1, isEmpty: true }],
+        (event) => events.push(event),
+        createToken()
+      );
+
+      assert.strictEqual(stats.deleteMode, "trash");
+      assert.deepStrictEqual(stats.fallbacks, [emptyDir]);
+      assert.deepStrictEqual(events, [{ path: emptyDir, status: "removed", deleteMode: "permanent", fallback: true }]);
+      assert.deepStrictEqual(events.map(describeFolderEvent), ["Removed: empty"]);
+    });
+
     it("should handle errors gracefully", async () => {
       const nonExistent = path.join(tempDir, "does-not-exist");
 
@@ -282,6 +892,9 @@ describe("EmptyFolderRemover", () => {
 
       assert.strictEqual(stats.totalErrors, 1);
       assert.strictEqual(stats.errors.length, 1);
+      assert.strictEqual(stats.outcomes.length, 1);
+      assert.strictEqual(stats.outcomes[0].status, "error");
+      assert.strictEqual(stats.outcomes[0].code, "ENOENT");
     });
 
     it("should respect cancellation token", async () => {
@@ -299,6 +912,45 @@ describe("EmptyFolderRemover", () => {
       await fs.access(emptyDir); // Directory should still exist
     });
 
+    it("should remove candidates streamed from a running scan", async () => {
+      await createTestStructure(tempDir, {
+        "a/b/c/.gitkeep": null,
+        "a/d/.gitkeep": null,
+        "keep/file.txt": "content"
+      });
+
+      const config = createTestConfig({ maxConcurrency: 2 });
+      const remover = new EmptyFolderRemover(config);
+      const stats = await scanAndRemove(new DirectoryScanner(config), remover, tempDir, () => {}, createToken());
+
+      assert.strictEqual(stats.totalRemoved, 4);
+      assert.strictEqual(stats.totalScanned, 6);
+      assert.deepStrictEqual(stats.protectedPaths, [], "Root is not empty");
+      await assert.rejects(fs.access(path.join(tempDir, "a")));
+      await fs.access(path.join(tempDir, "keep"));
+    });
+
+    it("should keep the root and report excluded folders when streaming", async () => {
+      const subtree = path.join(tempDir, "sub");
+      await createTestStructure(tempDir, {
+        "sub/empty/.gitkeep": null,
+        "sub/node_modules/pkg/.gitkeep": null
+      });
+
+      const config = createTestConfig();
+      const remover = new EmptyFolderRemover(config);
+      const stats = await scanAndRemove(new DirectoryScanner(config), remover, subtree, () => {}, createToken(), {
+        basePath: tempDir,
+        keepRoot: true
+      });
+
+      assert.deepStrictEqual(stats.outcomes, [
+        { path: path.join(subtree, "empty"), status: "removed" },
+        { path: path.join(subtree, "node_modules"), status: "excluded" }
+      ]);
+      await fs.access(subtree);
+    });
+
     it("should track scanned count correctly", async () => {
       const directories: DirectoryInfo[] = [
         { path: path.join(tempDir, "a"), depth: 1, isEmpty: false },
@@ -324,24 +976,100 @@ describe("Helper functions", () => {
       assert.strictEqual(stats.totalErrors, 0);
       assert.strictEqual(stats.duration, 0);
       assert.deepStrictEqual(stats.errors, []);
+      assert.deepStrictEqual(stats.deletedFiles, []);
+      assert.deepStrictEqual(stats.createdFiles, []);
+      assert.deepStrictEqual(stats.protectedPaths, []);
+      assert.deepStrictEqual(stats.recentPaths, []);
+      assert.deepStrictEqual(stats.gitKeptPaths, []);
+      assert.strictEqual(stats.deleteMode, "permanent");
+      assert.deepStrictEqual(stats.fallbacks, []);
+      assert.deepStrictEqual(stats.outcomes, []);
+    });
+  });
+
+  describe("selectRemovableRoots", () => {
+    it("should keep only removable folders whose parent stays", () => {
+      const root = path.resolve("/workspace");
+      const dir = (relativePath: string, extra: Partial<DirectoryInfo> = {}): DirectoryInfo => ({
+        path: path.join(root, relativePath),
+        depth: relativePath.split("/").length,
+        isEmpty: true,
+        ...extra
+      });
+
+      const roots = selectRemovableRoots([
+        dir("a"),
+        dir("a/b"),
+        dir("c", { isEmpty: false }),
+        dir("c/d"),
+        dir("e", { isProtected: true }),
+        dir("e/f", { isRecent: true })
+      ]);
+
+      assert.deepStrictEqual(roots.map(d => d.path), [path.join(root, "a"), path.join(root, "c", "d")]);
+    });
+  });
+
+  describe("selectCascadeChains", () => {
+    it("should count the folders and levels removed with each root, largest first", () => {
+      const root = path.resolve("/workspace");
+      const dir = (relativePath: string, extra: Partial<DirectoryInfo> = {}): DirectoryInfo => ({
+        path: path.join(root, relativePath),
+        depth: relativePath.split("/").length,
+        isEmpty: true,
+        ...extra
+      });
+
+      const chains = selectCascadeChains([
+        dir("a"),
+        dir("a/b"),
+        dir("c", { isEmpty: false }),
+        dir("c/d"),
+        dir("c/d/e"),
+        dir("c/d/e/f"),
+        dir("g"),
+        dir("g/h"),
+        dir("g/i", { isProtected: true })
+      ]);
+
+      assert.deepStrictEqual(
+        chains.map(chain => [path.relative(root, chain.root.path), chain.folders, chain.levels]),
+        [[path.join("c", "d"), 3, 3], ["a", 2, 2], ["g", 2, 2]]
+      );
     });
   });
 
   describe("aggregateStats", () => {
     it("should aggregate multiple stats objects", () => {
-      const stats1 = {
+      const stats1: RemovalStats = {
         totalScanned: 10,
         totalRemoved: 5,
         totalErrors: 1,
         duration: 100,
-        errors: ["error1"]
+        errors: ["error1"],
+        deletedFiles: ["junk1"],
+        createdFiles: [],
+        protectedPaths: ["protected1"],
+        recentPaths: ["recent1"],
+        gitKeptPaths: ["git1"],
+        deleteMode: "trash",
+        fallbacks: ["fallback1"],
+        outcomes: [{ path: "/a", status: "removed" }]
       };
-      const stats2 = {
+      const stats2: RemovalStats = {
         totalScanned: 20,
         totalRemoved: 8,
         totalErrors: 2,
         duration: 200,
-        errors: ["error2", "error3"]
+        errors: ["error2", "error3"],
+        deletedFiles: [],
+        createdFiles: ["keep1"],
+        protectedPaths: [],
+        recentPaths: [],
+        gitKeptPaths: [],
+        deleteMode: "trash",
+        fallbacks: [],
+        outcomes: [{ path: "/b", status: "error", code: "EACCES" }]
       };
 
       const aggregated = aggregateStats([stats1, stats2]);
@@ -350,6 +1078,17 @@ describe("Helper functions", () => {
       assert.strictEqual(aggregated.totalRemoved, 13);
       assert.strictEqual(aggregated.totalErrors, 3);
       assert.deepStrictEqual(aggregated.errors, ["error1", "error2", "error3"]);
+      assert.deepStrictEqual(aggregated.deletedFiles, ["junk1"]);
+      assert.deepStrictEqual(aggregated.createdFiles, ["keep1"]);
+      assert.deepStrictEqual(aggregated.protectedPaths, ["protected1"]);
+      assert.deepStrictEqual(aggregated.recentPaths, ["recent1"]);
+      assert.deepStrictEqual(aggregated.gitKeptPaths, ["git1"]);
+      assert.deepStrictEqual(aggregated.fallbacks, ["fallback1"]);
+      assert.deepStrictEqual(aggregated.outcomes, [
+        { path: "/a", status: "removed" },
+        { path: "/b", status: "error", code: "EACCES" }
+      ]);
+      assert.strictEqual(aggregated.deleteMode, "trash");
     });
 
     it("should handle empty array", () => {
@@ -360,3 +1099,581 @@ describe("Helper functions", () => {
     });
   });
 });
+
+describe("Symlink handling", () => {
+  let tempDir: string;
+
+  beforeEach(async function () {
+    // Creating symlinks needs extra privileges on Windows
+    if (process.platform === "win32") {
+      this.skip();
+    }
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "efr-test-"));
+  });
+
+  afterEach(async () => {
+    if (tempDir) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  async function scanEmpty(config: EmptyFolderConfig): Promise<string[]> {
+    const scanner = new DirectoryScanner(config);
+    const directories = await scanner.scanDirectories(tempDir, createToken());
+    return directories.filter(d => d.isEmpty && d.path !== tempDir).map(d => path.relative(tempDir, d.path)).sort();
+  }
+
+  it("should treat any link as content by default", async () => {
+    await fs.mkdir(path.join(tempDir, "dangling"));
+    await fs.symlink(path.join(tempDir, "missing"), path.join(tempDir, "dangling", "link"));
+
+    assert.deepStrictEqual(await scanEmpty(createTestConfig()), []);
+  });
+
+  it("should remove folders holding only dangling links with ignore-dangling", async () => {
+    await createTestStructure(tempDir, { "file.txt": "content" });
+    await fs.mkdir(path.join(tempDir, "dangling"));
+    await fs.mkdir(path.join(tempDir, "valid"));
+    await fs.symlink(path.join(tempDir, "missing"), path.join(tempDir, "dangling", "link"));
+    await fs.symlink(path.join(tempDir, "file.txt"), path.join(tempDir, "valid", "link"));
+
+    const config = createTestConfig({ symlinks: "ignore-dangling" });
+    assert.deepStrictEqual(await scanEmpty(config), ["dangling"]);
+
+    const remover = new EmptyFolderRemover(config);
+    const stats = await scanAndRemove(new DirectoryScanner(config), remover, tempDir, () => {}, createToken());
+
+    assert.strictEqual(stats.totalRemoved, 1);
+    assert.deepStrictEqual(stats.deletedFiles, [path.join(tempDir, "dangling", "link")]);
+    await assert.rejects(fs.lstat(path.join(tempDir, "dangling")));
+    await fs.access(path.join(tempDir, "valid", "link"));
+  });
+
+  it("should follow links to empty folders and only delete the link", async () => {
+    await fs.mkdir(path.join(tempDir, "target", "nested"), { recursive: true });
+    await fs.mkdir(path.join(tempDir, "a"));
+    await fs.symlink(path.join(tempDir, "target"), path.join(tempDir, "a", "link"));
+
+    const config = createTestConfig({ symlinks: "follow", protectedPaths: ["target"] });
+    assert.deepStrictEqual(await scanEmpty(config), ["a", "target", path.join("target", "nested")]);
+
+    const remover = new EmptyFolderRemover(config);
+    await scanAndRemove(new DirectoryScanner(config), remover, tempDir, () => {}, createToken());
+
+    await assert.rejects(fs.lstat(path.join(tempDir, "a")));
+    await fs.access(path.join(tempDir, "target"));
+  });
+
+  it("should not follow links that loop back to an ancestor", async () => {
+    await fs.mkdir(path.join(tempDir, "a", "b"), { recursive: true });
+    await fs.symlink(path.join(tempDir, "a"), path.join(tempDir, "a", "b", "loop"));
+
+    assert.deepStrictEqual(await scanEmpty(createTestConfig({ symlinks: "follow" })), []);
+  });
+
+  it("should not follow links outside the workspace folder", async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), "efr-test-"));
+    try {
+      await fs.mkdir(path.join(tempDir, "a"));
+      await fs.symlink(outside, path.join(tempDir, "a", "link"));
+
+      assert.deepStrictEqual(await scanEmpty(createTestConfig({ symlinks: "follow" })), []);
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it("should keep links when quarantining", async () => {
+    await fs.mkdir(path.join(tempDir, "dangling"));
+    await fs.symlink("missing", path.join(tempDir, "dangling", "link"));
+    const quarantine = path.join(tempDir, ".quarantine");
+
+    const config = createTestConfig({ symlinks: "ignore-dangling", excludePatterns: [".quarantine"] });
+    const remover = new EmptyFolderRemover(config, createQuarantineDeleter(quarantine, tempDir));
+    await scanAndRemove(new DirectoryScanner(config), remover, tempDir, () => {}, createToken());
+
+    assert.strictEqual(await fs.readlink(path.join(quarantine, "dangling", "link")), "missing");
+  });
+});
+
+describe("Auto clean helpers", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "efr-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe("scanAffectedChains", () => {
+    it("should walk up to the topmost empty ancestor", async () => {
+      await createTestStructure(tempDir, {
+        "keep.txt": "content",
+        "a/b/c/.gitkeep": null,
+        "a/sibling/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [] }), [tempDir]);
+      const deletedFile = path.join(tempDir, "a", "b", "c", "deleted.txt");
+      const directories = await scanAffectedChains(scanner, [deletedFile], tempDir, createToken());
+
+      assert.deepStrictEqual(
+        directories.map(d => d.path).sort(),
+        [
+          path.join(tempDir, "a"),
+          path.join(tempDir, "a", "b"),
+          path.join(tempDir, "a", "b", "c"),
+          path.join(tempDir, "a", "sibling")
+        ]
+      );
+    });
+
+    it("should stop at a non-empty ancestor and start from the nearest existing one", async () => {
+      await createTestStructure(tempDir, {
+        "a/file.txt": "content",
+        "a/b/.gitkeep": null
+      });
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [] }), [tempDir]);
+      const deletedPath = path.join(tempDir, "a", "b", "gone", "deeper", "file.txt");
+      const directories = await scanAffectedChains(scanner, [deletedPath], tempDir, createToken());
+
+      assert.deepStrictEqual(directories.map(d => d.path), [path.join(tempDir, "a", "b")]);
+    });
+
+    it("should only read the parent when it still holds files", async () => {
+      const structure: Record<string, string | null> = { "a/file.txt": "content" };
+      for (let i = 0; i < 50; i++) {
+        structure[`a/sub${i}/file.txt`] = "content";
+      }
+      const fileSystem = new MemoryFileSystem(structure, tempDir);
+      const readDirectory = fileSystem.readDirectory.bind(fileSystem);
+      let reads = 0;
+      fileSystem.readDirectory = async dirPath => {
+        reads++;
+        return readDirectory(dirPath);
+      };
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [] }), [tempDir], undefined, [], fileSystem);
+      const directories = await scanAffectedChains(scanner, [path.join(tempDir, "a", "deleted.txt")], tempDir, createToken());
+
+      assert.deepStrictEqual(directories, []);
+      assert.strictEqual(reads, 1);
+    });
+
+    it("should read each directory at most twice for many deleted paths", async () => {
+      const structure: Record<string, string | null> = { "keep.txt": "content" };
+      for (let i = 0; i < 20; i++) {
+        structure[`a/sub${i}/.gitkeep`] = null;
+      }
+      const fileSystem = new MemoryFileSystem(structure, tempDir);
+      const readDirectory = fileSystem.readDirectory.bind(fileSystem);
+      const reads = new Map<string, number>();
+      fileSystem.readDirectory = async dirPath => {
+        reads.set(dirPath, (reads.get(dirPath) ?? 0) + 1);
+        return readDirectory(dirPath);
+      };
+
+      const scanner = new DirectoryScanner(createTestConfig({ excludePatterns: [] }), [tempDir], undefined, [], fileSystem);
+      const deletedPaths = Array.from({ length: 20 }, (_, i) => path.join(tempDir, "a", `sub${i}`, "deleted.txt"));
+      const directories = await scanAffectedChains(scanner, deletedPaths, tempDir, createToken());
+
+      assert.strictEqual(directories.length, 21);
+      assert.strictEqual(directories.find(d => d.path === path.join(tempDir, "a"))?.depth, 1);
+      assert.ok(Math.max(...reads.values()) <= 2);
+    });
+
+    it("should not climb into excluded directories", async () => {
+      await fs.mkdir(path.join(tempDir, "node_modules", "pkg"), { recursive: true });
+
+      const scanner = new DirectoryScanner(createTestConfig(), [tempDir]);
+      const deletedFile = path.join(tempDir, "node_modules", "pkg", "index.js");
+      const directories = await scanAffectedChains(scanner, [deletedFile], tempDir, createToken());
+
+      assert.deepStrictEqual(directories, []);
+    });
+  });
+
+  describe("applyMinAge", () => {
+    it("should keep recently created folders and their ancestors", async function () {
+      const parent = path.join(tempDir, "parent");
+      const child = path.join(parent, "child");
+      await fs.mkdir(child, { recursive: true });
+
+      const { birthtimeMs } = await fs.stat(child);
+      if (birthtimeMs === 0) {
+        this.skip();
+      }
+
+      const directories: DirectoryInfo[] = [
+        { path: child, depth: 2, isEmpty: true },
+        { path: parent, depth: 1, isEmpty: true }
+      ];
+
+      const recent = await applyMinAge(directories, 60000, birthtimeMs + 1000);
+      assert.deepStrictEqual(recent.map(d => [d.isEmpty, d.isRecent]), [[true, true], [true, true]]);
+      assert.ok(!recent.some(isRemovable));
+
+      const old = await applyMinAge(directories, 60000, birthtimeMs + 120000);
+      assert.deepStrictEqual(old.map(d => d.isEmpty), [true, true]);
+    });
+
+    it("should fall back to the status change time without a birthtime", async () => {
+      const child = path.join(tempDir, "parent", "child");
+      const fileSystem = new MemoryFileSystem({ "parent/child/.gitkeep": null }, tempDir);
+      fileSystem.setBirthtime(child, 0);
+      const { ctimeMs } = await fileSystem.stat(child);
+
+      const directories: DirectoryInfo[] = [
+        { path: child, depth: 2, isEmpty: true },
+        { path: path.dirname(child), depth: 1, isEmpty: true }
+      ];
+
+      const recent = await applyMinAge(directories, 60000, ctimeMs + 1000, fileSystem);
+      assert.ok(recent.every(dir => dir.isRecent));
+
+      fileSystem.setBirthtime(path.dirname(child), ctimeMs - 120000);
+      const held = await applyMinAge(directories, 60000, ctimeMs + 1000, fileSystem);
+      assert.deepStrictEqual(held.map(d => [d.isEmpty, d.isRecent]), [[true, true], [false, undefined]]);
+
+      const old = await applyMinAge(directories, 60000, ctimeMs + 120000, fileSystem);
+      assert.ok(old.every(isRemovable));
+    });
+
+    it("should return directories unchanged without a minimum age", async () => {
+      const directories: DirectoryInfo[] = [{ path: tempDir, depth: 0, isEmpty: true }];
+
+      assert.strictEqual(await applyMinAge(directories, 0), directories);
+    });
+  });
+});
+
+describe("In-memory file system", () => {
+  const root = path.resolve("/memory");
+
+  async function scanEmpty(fileSystem: MemoryFileSystem, config: EmptyFolderConfig): Promise<string[]> {
+    const scanner = new DirectoryScanner(config, [], undefined, [], fileSystem);
+    const directories = await scanner.scanDirectories(root, createToken());
+    return directories.filter(isRemovable).map(d => path.relative(root, d.path)).sort();
+  }
+
+  it("should scan and remove nested empty folders with their junk files", async () => {
+    const fileSystem = new MemoryFileSystem({
+      "a/b/c/.gitkeep": null,
+      "a/b/.DS_Store": "",
+      "kept/.gitkeep": "",
+      "src/index.ts": "content"
+    }, root);
+    const config = createTestConfig({ junkFiles: [".DS_Store"] });
+
+    assert.deepStrictEqual(await scanEmpty(fileSystem, config), ["a", path.join("a", "b"), path.join("a", "b", "c")]);
+
+    const scanner = new DirectoryScanner(config, [], undefined, [], fileSystem);
+    const remover = new EmptyFolderRemover(config, createPermanentDeleter(fileSystem), fileSystem);
+    const stats = await scanAndRemove(scanner, remover, root, () => {}, createToken());
+
+    assert.strictEqual(stats.totalRemoved, 3);
+    assert.deepStrictEqual(stats.deletedFiles, [path.join(root, "a", "b", ".DS_Store")]);
+    assert.ok(!fileSystem.exists(path.join(root, "a")));
+    assert.ok(fileSystem.exists(path.join(root, "kept", ".gitkeep")));
+    assert.ok(fileSystem.exists(path.join(root, "src", "index.ts")));
+  });
+
+  it("should not keep folders touched during the scan when following links without a minimum age", async () => {
+    const fileSystem = new MemoryFileSystem({ "touched/.gitkeep": null }, root);
+    fileSystem.setModified(path.join(root, "touched"), Date.now() + 60 * 60 * 1000);
+
+    const config = createTestConfig({ symlinks: "follow", minAgeDays: 0 });
+    assert.deepStrictEqual(await scanEmpty(fileSystem, config), ["touched"]);
+  });
+
+  it("should read .gitignore and .emptyfoldersrc files through the file system", async () => {
+    const fileSystem = new MemoryFileSystem({
+      ".gitignore": "build/\n",
+      "build/out/.gitkeep": null,
+      "vendor/.emptyfoldersrc": JSON.stringify({ disable: true }),
+      "vendor/lib/.gitkeep": null,
+      "docs/.gitkeep": null
+    }, root);
+
+    assert.deepStrictEqual(await scanEmpty(fileSystem, createTestConfig({ respectGitignore: true })), ["docs"]);
+  });
+
+  it("should add keep-files in fill mode", async () => {
+    const fileSystem = new MemoryFileSystem({ "parent/child/.gitkeep": null }, root);
+    const config = createTestConfig({ keepFilePolicy: "fill" });
+    const directories: DirectoryInfo[] = [
+      { path: path.join(root, "parent", "child"), depth: 2, isEmpty: true },
+      { path: path.join(root, "parent"), depth: 1, isEmpty: true }
+    ];
+
+    const remover = new EmptyFolderRemover(config, createPermanentDeleter(fileSystem), fileSystem);
+    const stats = await remover.removeEmptyFolders(directories, () => {}, createToken());
+
+    assert.deepStrictEqual(stats.createdFiles, [path.join(root, "parent", "child", ".gitkeep")]);
+    assert.strictEqual(await fileSystem.readFile(path.join(root, "parent", "child", ".gitkeep")), "");
+  });
+
+  it("should skip folders that are no longer empty", async () => {
+    const fileSystem = new MemoryFileSystem({ "was-empty/.gitkeep": null }, root);
+    const dirPath = path.join(root, "was-empty");
+    await fileSystem.createFile(path.join(dirPath, "new-file.txt"), "content");
+
+    const remover = new EmptyFolderRemover(createTestConfig(), createPermanentDeleter(fileSystem), fileSystem);
+    const stats = await remover.removeEmptyFolders([{ path: dirPath, depth: 1, isEmpty: true }], () => {}, createToken());
+
+    assert.deepStrictEqual(stats.outcomes, [{ path: dirPath, status: "skipped-not-empty" }]);
+    assert.ok(fileSystem.exists(dirPath));
+  });
+
+  describe("hollow folders", () => {
+    function createHollowFileSystem(): MemoryFileSystem {
+      return new MemoryFileSystem({
+        "locks/app.lock": "",
+        "logs/out.log": "data",
+        "stub/a/empty.txt": "",
+        "stub/b/.gitkeep": null,
+        "empty/.gitkeep": null,
+        "kept/.gitkeep": "",
+        "mixed/empty.txt": "",
+        "mixed/notes.txt": "content"
+      }, root);
+    }
+
+    it("should treat folders holding only zero-byte or matching files as hollow, with cascade", async () => {
+      const fileSystem = createHollowFileSystem();
+      const scanner = new DirectoryScanner(createTestConfig({ hollowFiles: ["*.log"] }), [], undefined, [], fileSystem);
+      const directories = await scanner.scanHollowDirectories(root, createToken());
+
+      assert.deepStrictEqual(
+        selectHollowRoots(directories).map(d => path.relative(root, d.path)).sort(),
+        ["locks", "logs", "stub"]
+      );
+      const byPath = new Map(directories.map(d => [path.relative(root, d.path), d]));
+      assert.deepStrictEqual(byPath.get(path.join("stub", "a"))?.hollowFiles, [path.join(root, "stub", "a", "empty.txt")]);
+      assert.strictEqual(byPath.get(path.join("stub", "b"))?.isHollow, undefined);
+      assert.strictEqual(byPath.get("empty")?.isEmpty, true);
+      assert.strictEqual(byPath.get("empty")?.isHollow, undefined);
+      assert.strictEqual(byPath.get("kept")?.isEmpty, false);
+      assert.strictEqual(byPath.get("mixed")?.isEmpty, false);
+    });
+
+    it("should not count hollow files as empty in regular scans", async () => {
+      const fileSystem = createHollowFileSystem();
+
+      assert.deepStrictEqual(await scanEmpty(fileSystem, createTestConfig()), ["empty", path.join("stub", "b")]);
+    });
+
+    it("should delete hollow files with their folder", async () => {
+      const fileSystem = createHollowFileSystem();
+      const config = createTestConfig();
+      const scanner = new DirectoryScanner(config, [], undefined, [], fileSystem);
+      const directories = await scanner.scanHollowDirectories(root, createToken());
+
+      const remover = new EmptyFolderRemover(config, createPermanentDeleter(fileSystem), fileSystem);
+      const stats = await remover.removeEmptyFolders(directories.filter(d => d.isHollow), () => {}, createToken());
+
+      assert.deepStrictEqual(stats.deletedFiles.sort(), [
+        path.join(root, "locks", "app.lock"),
+        path.join(root, "stub", "a", "empty.txt")
+      ]);
+      assert.ok(!fileSystem.exists(path.join(root, "locks")));
+      assert.ok(fileSystem.exists(path.join(root, "stub", "b")));
+    });
+
+    it("should keep folders whose hollow files were written to after the scan", async () => {
+      const fileSystem = createHollowFileSystem();
+      const config = createTestConfig();
+      const scanner = new DirectoryScanner(config, [], undefined, [], fileSystem);
+      const directories = await scanner.scanHollowDirectories(root, createToken());
+
+      const lockFile = path.join(root, "locks", "app.lock");
+      await fileSystem.deleteFile(lockFile);
+      await fileSystem.createFile(lockFile, "pid 42");
+
+      const locks = directories.filter(d => d.path === path.join(root, "locks"));
+      const remover = new EmptyFolderRemover(config, createPermanentDeleter(fileSystem), fileSystem);
+      const stats = await remover.removeEmptyFolders(locks, () => {}, createToken());
+
+      assert.deepStrictEqual(stats.outcomes, [{ path: path.join(root, "locks"), status: "skipped-not-empty" }]);
+      assert.ok(fileSystem.exists(lockFile));
+    });
+  });
+
+  it("should not follow links when the file system has no directory identities", async () => {
+    const fileSystem = new MemoryFileSystem({ "target/nested/.gitkeep": null }, root);
+    fileSystem.symlink(path.join(root, "target"), path.join(root, "a", "link"));
+    const config = createTestConfig({ symlinks: "follow", protectedPaths: ["target"] });
+    const nested = path.join("target", "nested");
+
+    assert.deepStrictEqual(await scanEmpty(fileSystem, config), ["a", nested]);
+
+    const stat = fileSystem.stat.bind(fileSystem);
+    fileSystem.stat = async filePath => ({ ...await stat(filePath), id: undefined });
+    assert.deepStrictEqual(await scanEmpty(fileSystem, config), [nested]);
+  });
+});
+
+describe("Git classification", () => {
+  let tempDir: string;
+
+  beforeEach(async function () {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "efr-test-"));
+    try {
+      await runGit(["init", "-q"], tempDir);
+    } catch {
+      // git isn't installed
+      this.skip();
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function createRepository(): Promise<void> {
+    await createTestStructure(tempDir, {
+      ".gitignore": "*.log\n",
+      "untracked/.gitkeep": null,
+      "logs/debug.log": "",
+      "tracked/.DS_Store": "",
+      "visible/Thumbs.db": ""
+    });
+    await runGit(["add", ".gitignore", "tracked/.DS_Store"], tempDir);
+  }
+
+  async function scan(config: EmptyFolderConfig): Promise<Map<string, DirectoryInfo>> {
+    const directories = await new DirectoryScanner(config).scanDirectories(tempDir, createToken());
+    return new Map(directories.filter(d => d.isEmpty).map(d => [path.relative(tempDir, d.path), d]));
+  }
+
+  it("should classify empty folders", async () => {
+    await createRepository();
+    const config = createTestConfig({ gitMode: "classify", junkFiles: ["*.log", ".DS_Store", "Thumbs.db"] });
+    const directories = await scan(config);
+
+    assert.deepStrictEqual(directories.get("untracked")?.git, { status: "untracked", changesStatus: false });
+    assert.deepStrictEqual(directories.get("logs")?.git, { status: "ignored", changesStatus: false });
+    assert.deepStrictEqual(directories.get("tracked")?.git, { status: "tracked", changesStatus: true });
+    assert.deepStrictEqual(directories.get("visible")?.git, { status: "untracked", changesStatus: true });
+    assert.ok(Array.from(directories.values()).every(isRemovable));
+  });
+
+  it("should only remove folders that leave git status unchanged in safe-only mode", async () => {
+    await createRepository();
+    const config = createTestConfig({ gitMode: "safe-only", junkFiles: ["*.log", ".DS_Store", "Thumbs.db"] });
+
+    const remover = new EmptyFolderRemover(config);
+    const stats = await scanAndRemove(new DirectoryScanner(config), remover, tempDir, () => {}, createToken());
+
+    assert.deepStrictEqual(stats.gitKeptPaths.sort(), [path.join(tempDir, "tracked"), path.join(tempDir, "visible")]);
+    assert.deepStrictEqual(
+      stats.outcomes.filter(o => o.status === "removed").map(o => [path.relative(tempDir, o.path), o.git]).sort(),
+      [["logs", "ignored"], ["untracked", "untracked"]]
+    );
+    await fs.access(path.join(tempDir, "tracked", ".DS_Store"));
+  });
+
+  it("should not classify folders outside a work tree", async () => {
+    await fs.rm(path.join(tempDir, ".git"), { recursive: true, force: true });
+    await createTestStructure(tempDir, { "empty/.gitkeep": null });
+
+    const directories = await scan(createTestConfig({ gitMode: "safe-only" }));
+    assert.strictEqual(directories.get("empty")?.git, undefined);
+  });
+});
+
+describe("buildDirectoryTree", () => {
+  const root = path.join(os.tmpdir(), "efr-tree");
+
+  it("should nest cascade chains under their topmost empty ancestor", () => {
+    const directories: DirectoryInfo[] = [
+      { path: path.join(root, "a", "b", "c"), depth: 3, isEmpty: true },
+      { path: path.join(root, "a", "b"), depth: 2, isEmpty: true },
+      { path: path.join(root, "src"), depth: 1, isEmpty: false },
+      { path: path.join(root, "a"), depth: 1, isEmpty: true },
+      { path: root, depth: 0, isEmpty: false }
+    ];
+
+    const tree = buildDirectoryTree(root, directories);
+
+    assert.ok(tree);
+    assert.strictEqual(tree.children.length, 1, "Non-empty branches without empty folders are pruned");
+    const a = tree.children[0];
+    assert.strictEqual(a.info.path, path.join(root, "a"));
+    assert.strictEqual(a.children[0].info.path, path.join(root, "a", "b"));
+    assert.strictEqual(a.children[0].children[0].info.path, path.join(root, "a", "b", "c"));
+  });
+
+  it("should keep non-empty intermediate folders that lead to empty ones", () => {
+    const directories: DirectoryInfo[] = [
+      { path: path.join(root, "src", "empty"), depth: 2, isEmpty: true },
+      { path: path.join(root, "src"), depth: 1, isEmpty: false },
+      { path: root, depth: 0, isEmpty: false }
+    ];
+
+    const tree = buildDirectoryTree(root, directories);
+
+    assert.ok(tree);
+    const src = tree.children[0];
+    assert.strictEqual(src.info.isEmpty, false);
+    assert.strictEqual(src.children[0].info.path, path.join(root, "src", "empty"));
+  });
+
+  it("should add the non-empty folders leading to empty ones", () => {
+    const tree = buildDirectoryTree(root, [
+      { path: path.join(root, "src", "lib", "empty"), depth: 3, isEmpty: true }
+    ]);
+
+    assert.ok(tree);
+    assert.deepStrictEqual(
+      flattenDirectoryTree(tree).map(d => [path.relative(root, d.path), d.depth, d.isEmpty]),
+      [["", 0, false], ["src", 1, false], [path.join("src", "lib"), 2, false], [path.join("src", "lib", "empty"), 3, true]]
+    );
+  });
+
+  it("should return undefined when the root was not scanned", () => {
+    assert.strictEqual(buildDirectoryTree(root, []), undefined);
+  });
+
+  it("should flatten a node with all of its descendants", () => {
+    const directories: DirectoryInfo[] = [
+      { path: path.join(root, "a", "b"), depth: 2, isEmpty: true },
+      { path: path.join(root, "a"), depth: 1, isEmpty: true },
+      { path: root, depth: 0, isEmpty: false }
+    ];
+
+    const tree = buildDirectoryTree(root, directories);
+
+    assert.ok(tree);
+    assert.deepStrictEqual(
+      flattenDirectoryTree(tree).map(d => d.path),
+      [root, path.join(root, "a"), path.join(root, "a", "b")]
+    );
+  });
+});
+
+describe("Path helpers", () => {
+  const root = path.join(os.tmpdir(), "efr-paths");
+
+  describe("isSubPath", () => {
+    it("should detect paths inside a parent", () => {
+      assert.strictEqual(isSubPath(root, root), true);
+      assert.strictEqual(isSubPath(root, path.join(root, "a", "b")), true);
+      assert.strictEqual(isSubPath(root, path.join(root + "-other", "a")), false);
+      assert.strictEqual(isSubPath(path.join(root, "a"), root), false);
+    });
+  });
+
+  describe("removeNestedPaths", () => {
+    it("should keep only outermost paths", () => {
+      const a = path.join(root, "a");
+      const ab = path.join(root, "a", "b");
+      const c = path.join(root, "c");
+
+      assert.deepStrictEqual(removeNestedPaths([ab, a, c, a]), [a, c]);
+    });
+  });
+});
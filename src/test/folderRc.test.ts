@@ -0,0 +1,72 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as os from "os";
+import { FolderRc, isDisabledByRc, isExcludedByRc, isProtectedByRc, parseFolderRc } from "../folderRc";
+
+describe(".emptyfoldersrc", () => {
+  const root = path.join(os.tmpdir(), "efr-rc");
+
+  function rcFile(content: object, ...segments: string[]): FolderRc {
+    return parseFolderRc(JSON.stringify(content), path.join(root, ...segments));
+  }
+
+  describe("parseFolderRc", () => {
+    it("should reject anything but an object with pattern lists and a boolean", () => {
+      assert.throws(() => parseFolderRc("{not json", root));
+      assert.throws(() => parseFolderRc("[]", root));
+      assert.throws(() => parseFolderRc("{ \"exclude\": \"build\" }", root));
+      assert.throws(() => parseFolderRc("{ \"protectedPaths\": [1] }", root));
+      assert.throws(() => parseFolderRc("{ \"disable\": \"yes\" }", root));
+    });
+
+    it("should accept an empty object", () => {
+      const rc = parseFolderRc("{}", root);
+
+      assert.deepStrictEqual(rc, { baseDir: root, exclude: [], protectedPaths: [] });
+    });
+  });
+
+  describe("isExcludedByRc", () => {
+    it("should match names at any depth and paths relative to the file", () => {
+      const rcFiles = [rcFile({ exclude: ["build", "/docs/generated"] })];
+
+      assert.strictEqual(isExcludedByRc(rcFiles, path.join(root, "a", "build")), true);
+      assert.strictEqual(isExcludedByRc(rcFiles, path.join(root, "docs", "generated")), true);
+      assert.strictEqual(isExcludedByRc(rcFiles, path.join(root, "a", "docs", "generated")), undefined);
+      assert.strictEqual(isExcludedByRc(rcFiles, path.join(root, "src")), undefined);
+    });
+
+    it("should let nearer files override farther ones", () => {
+      const rcFiles = [rcFile({ exclude: ["fixtures"] }), rcFile({ exclude: ["!fixtures"] }, "pkg")];
+
+      assert.strictEqual(isExcludedByRc(rcFiles, path.join(root, "fixtures")), true);
+      assert.strictEqual(isExcludedByRc(rcFiles, path.join(root, "pkg", "fixtures")), false);
+    });
+
+    it("should not apply outside the file's subtree", () => {
+      const rcFiles = [rcFile({ exclude: ["*"] }, "pkg")];
+
+      assert.strictEqual(isExcludedByRc(rcFiles, path.join(root, "pkg")), undefined);
+      assert.strictEqual(isExcludedByRc(rcFiles, path.join(root, "other")), undefined);
+    });
+  });
+
+  describe("isProtectedByRc", () => {
+    it("should use the last matching pattern of a file", () => {
+      const rcFiles = [rcFile({ protectedPaths: ["slots/*", "!slots/tmp"] })];
+
+      assert.strictEqual(isProtectedByRc(rcFiles, path.join(root, "slots", "a")), true);
+      assert.strictEqual(isProtectedByRc(rcFiles, path.join(root, "slots", "tmp")), false);
+    });
+  });
+
+  describe("isDisabledByRc", () => {
+    it("should use the nearest file that sets disable", () => {
+      const rcFiles = [rcFile({ disable: true }), rcFile({ exclude: ["x"] }, "a"), rcFile({ disable: false }, "a", "b")];
+
+      assert.strictEqual(isDisabledByRc(rcFiles, path.join(root, "a", "c")), true);
+      assert.strictEqual(isDisabledByRc(rcFiles, path.join(root, "a", "b", "c")), false);
+      assert.strictEqual(isDisabledByRc([], path.join(root, "a")), false);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as os from "os";
+import { GitRunner, classifyGitFolder, describeGitStatus, loadGitIndex } from "../git";
+
+// Runner answering the two ls-files calls with canned output
+function createRunner(listed: string[], ignored: string[]): GitRunner & { calls: string[][] } {
+  const calls: string[][] = [];
+  const runner = async (args: string[]) => {
+    calls.push(args);
+    return (args.includes("--ignored") ? ignored : listed).map(entry => entry + "\0").join("");
+  };
+  return Object.assign(runner, { calls });
+}
+
+describe("git", () => {
+  const root = path.join(os.tmpdir(), "efr-git");
+
+  describe("loadGitIndex", () => {
+    it("should run ls-files in the root directory", async () => {
+      const runner = createRunner([], []);
+      const index = await loadGitIndex(root, runner);
+
+      assert.ok(index);
+      assert.strictEqual(runner.calls.length, 2);
+      assert.ok(runner.calls.every(args => args[0] === "ls-files" && args.includes("-z")));
+    });
+
+    it("should return undefined outside a work tree", async () => {
+      const index = await loadGitIndex(root, async () => {
+        throw new Error("fatal: not a git repository");
+      });
+
+      assert.strictEqual(index, undefined);
+    });
+  });
+
+  describe("classifyGitFolder", () => {
+    it("should classify folders without known paths as untracked", async () => {
+      const index = (await loadGitIndex(root, createRunner(["H src/index.ts"], [])))!;
+
+      assert.deepStrictEqual(classifyGitFolder(index, path.join(root, "empty")), { status: "untracked", changesStatus: false });
+    });
+
+    it("should classify parents of tracked paths as tracked", async () => {
+      const index = (await loadGitIndex(root, createRunner(["H assets/img/.gitkeep", "H old/file.txt", "R old/file.txt"], [])))!;
+
+      assert.deepStrictEqual(classifyGitFolder(index, path.join(root, "assets")), { status: "tracked", changesStatus: true });
+      assert.deepStrictEqual(classifyGitFolder(index, path.join(root, "assets", "img")), { status: "tracked", changesStatus: true });
+      // Files already deleted from disk are in git status either way
+      assert.deepStrictEqual(classifyGitFolder(index, path.join(root, "old")), { status: "tracked", changesStatus: false });
+    });
+
+    it("should classify folders holding only ignored files as ignored", async () => {
+      const index = (await loadGitIndex(root, createRunner([], ["cache/.DS_Store", "tmp/"])))!;
+
+      assert.deepStrictEqual(classifyGitFolder(index, path.join(root, "cache")), { status: "ignored", changesStatus: false });
+      assert.deepStrictEqual(classifyGitFolder(index, path.join(root, "tmp")), { status: "ignored", changesStatus: false });
+      assert.deepStrictEqual(classifyGitFolder(index, path.join(root, "tmp", "nested")), { status: "ignored", changesStatus: false });
+    });
+
+    it("should report untracked files that git status lists", async () => {
+      const index = (await loadGitIndex(root, createRunner(["? a/Thumbs.db"], ["a/.DS_Store"])))!;
+
+      assert.deepStrictEqual(classifyGitFolder(index, path.join(root, "a")), { status: "untracked", changesStatus: true });
+    });
+  });
+
+  describe("describeGitStatus", () => {
+    it("should mention when the removal shows in git status", () => {
+      assert.strictEqual(describeGitStatus({ status: "ignored", changesStatus: false }), "only ignored files");
+      assert.strictEqual(
+        describeGitStatus({ status: "tracked", changesStatus: true }),
+        "parent of tracked paths, removal shows in git status"
+      );
+    });
+  });
+});
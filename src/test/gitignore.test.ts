@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import * as path from "path";
+import * as os from "os";
+import { parseGitignore, isIgnored, IgnoreRuleSet } from "../gitignore";
+
+describe("gitignore", () => {
+  const root = path.join(os.tmpdir(), "efr-gitignore");
+
+  function ruleSet(content: string, baseDir = root): IgnoreRuleSet {
+    return { baseDir, rules: parseGitignore(content) };
+  }
+
+  describe("parseGitignore", () => {
+    it("should skip comments and blank lines", () => {
+      const rules = parseGitignore("# comment\n\n  \nbuild\n");
+
+      assert.strictEqual(rules.length, 1);
+    });
+
+    it("should treat escaped leading characters literally", () => {
+      const rules = parseGitignore("\\#notes\n\\!important\n");
+
+      assert.ok(rules[0].regex.test("#notes"));
+      assert.strictEqual(rules[1].negated, false);
+      assert.ok(rules[1].regex.test("!important"));
+    });
+  });
+
+  describe("isIgnored", () => {
+    it("should match unanchored patterns at any depth", () => {
+      const sets = [ruleSet("target/")];
+
+      assert.strictEqual(isIgnored(sets, path.join(root, "target")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "a", "b", "target")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "targets")), false);
+    });
+
+    it("should anchor patterns containing a slash", () => {
+      const sets = [ruleSet("/out\nsrc/gen")];
+
+      assert.strictEqual(isIgnored(sets, path.join(root, "out")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "lib", "out")), false);
+      assert.strictEqual(isIgnored(sets, path.join(root, "src", "gen")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "lib", "src", "gen")), false);
+    });
+
+    it("should support wildcards and double asterisks", () => {
+      const sets = [ruleSet("*.tmp\n**/cache\nlogs/**\ndocs/**/api\nv[0-9]")];
+
+      assert.strictEqual(isIgnored(sets, path.join(root, "x.tmp")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "deep", "cache")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "logs")), false);
+      assert.strictEqual(isIgnored(sets, path.join(root, "logs", "today")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "docs", "api")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "docs", "v1", "api")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "v2")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "vx")), false);
+    });
+
+    it("should let later and nearer rules win", () => {
+      const sets = [
+        ruleSet("build*\n!build-keep"),
+        ruleSet("!build-local", path.join(root, "pkg"))
+      ];
+
+      assert.strictEqual(isIgnored(sets, path.join(root, "build")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "build-keep")), false);
+      assert.strictEqual(isIgnored(sets, path.join(root, "build-local")), true);
+      assert.strictEqual(isIgnored(sets, path.join(root, "pkg", "build-local")), false);
+    });
+
+    it("should not apply rules outside their base directory", () => {
+      const sets = [ruleSet("*", path.join(root, "pkg"))];
+
+      assert.strictEqual(isIgnored(sets, path.join(root, "other")), false);
+    });
+  });
+});
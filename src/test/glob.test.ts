@@ -0,0 +1,66 @@
+import * as assert from "assert";
+import { globToRegExp, hasGlobSyntax, toPosixPath } from "../glob";
+
+describe("glob", () => {
+  describe("globToRegExp", () => {
+    it("should keep single wildcards within a path segment", () => {
+      const regex = globToRegExp("src/*");
+
+      assert.ok(regex.test("src/lib"));
+      assert.ok(!regex.test("src/lib/deep"));
+    });
+
+    it("should match any number of directories with **", () => {
+      const regex = globToRegExp("**/fixtures/**");
+
+      assert.ok(regex.test("fixtures/a"));
+      assert.ok(regex.test("a/b/fixtures/c/d"));
+      assert.ok(!regex.test("a/fixtures"));
+    });
+
+    it("should expand braces only when enabled", () => {
+      assert.ok(globToRegExp("{a,b}c", { braces: true }).test("bc"));
+      assert.ok(globToRegExp("{a,b}c").test("{a,b}c"));
+    });
+
+    it("should support nested braces", () => {
+      const regex = globToRegExp("{lib,out{,-*}}", { braces: true });
+
+      assert.ok(regex.test("lib"));
+      assert.ok(regex.test("out"));
+      assert.ok(regex.test("out-esm"));
+      assert.ok(!regex.test("outside"));
+    });
+
+    it("should treat unbalanced braces literally", () => {
+      assert.ok(globToRegExp("{a,b", { braces: true }).test("{a,b"));
+    });
+
+    it("should support negated character classes", () => {
+      const regex = globToRegExp("[!.]*");
+
+      assert.ok(regex.test("src"));
+      assert.ok(!regex.test(".hidden"));
+    });
+
+    it("should honour case sensitivity option", () => {
+      assert.ok(!globToRegExp("Build").test("build"));
+      assert.ok(globToRegExp("Build", { caseInsensitive: true }).test("build"));
+    });
+  });
+
+  describe("hasGlobSyntax", () => {
+    it("should detect wildcard characters", () => {
+      assert.strictEqual(hasGlobSyntax("node_modules"), false);
+      assert.strictEqual(hasGlobSyntax("*.cache"), true);
+      assert.strictEqual(hasGlobSyntax("{a,b}"), true);
+    });
+  });
+
+  describe("toPosixPath", () => {
+    it("should convert separators", () => {
+      assert.strictEqual(toPosixPath("a\\b\\c", "\\"), "a/b/c");
+      assert.strictEqual(toPosixPath("a/b", "/"), "a/b");
+    });
+  });
+});
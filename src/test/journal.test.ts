@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import {
+  RemovalJournal,
+  JournalEntry,
+  restoreDirectories
+} from "../journal";
+import { createMemoryStorage } from "./memoryStorage";
+
+describe("RemovalJournal", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "efr-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  function entry(relativePath: string): JournalEntry {
+    return {
+      path: path.join(tempDir, relativePath),
+      depth: relativePath.split("/").length,
+      workspaceFolder: tempDir
+    };
+  }
+
+  it("should keep runs newest first and cap the history", async () => {
+    const journal = new RemovalJournal(createMemoryStorage(), 2);
+
+    await journal.record([entry("a")]);
+    await journal.record([entry("b")]);
+    await journal.record([entry("c")]);
+
+    const runs = journal.getRuns();
+    assert.strictEqual(runs.length, 2);
+    assert.strictEqual(runs[0].entries[0].path, path.join(tempDir, "c"));
+    assert.strictEqual(runs[1].entries[0].path, path.join(tempDir, "b"));
+  });
+
+  it("should not record empty runs", async () => {
+    const journal = new RemovalJournal(createMemoryStorage());
+
+    await journal.record([]);
+
+    assert.strictEqual(journal.getRuns().length, 0);
+  });
+
+  it("should undo runs one at a time", async () => {
+    const journal = new RemovalJournal(createMemoryStorage());
+    await journal.record([entry("first")]);
+    await journal.record([entry("second")]);
+
+    const undone = await journal.undoLast();
+
+    assert.ok(undone);
+    assert.deepStrictEqual(undone.result.restored, [path.join(tempDir, "second")]);
+    await fs.access(path.join(tempDir, "second"));
+    await assert.rejects(fs.access(path.join(tempDir, "first")), "Older run should be untouched");
+    assert.strictEqual(journal.getRuns().length, 1);
+  });
+
+  it("should return undefined when there is nothing to undo", async () => {
+    const journal = new RemovalJournal(createMemoryStorage());
+
+    assert.strictEqual(await journal.undoLast(), undefined);
+  });
+});
+
+describe("restoreDirectories", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "efr-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("should recreate parents before children", async () => {
+    const parent = path.join(tempDir, "parent");
+    const child = path.join(parent, "child");
+
+    const result = await restoreDirectories([
+      { path: child, depth: 2, workspaceFolder: tempDir },
+      { path: parent, depth: 1, workspaceFolder: tempDir }
+    ]);
+
+    assert.deepStrictEqual(result.restored, [parent, child]);
+    await fs.access(child);
+  });
+
+  it("should report paths that now exist", async () => {
+    const occupied = path.join(tempDir, "occupied");
+    await fs.writeFile(occupied, "content");
+
+    const result = await restoreDirectories([
+      { path: occupied, depth: 1, workspaceFolder: tempDir }
+    ]);
+
+    assert.deepStrictEqual(result.conflicts, [occupied]);
+    assert.strictEqual(result.restored.length, 0);
+    assert.strictEqual(await fs.readFile(occupied, "utf8"), "content", "Existing file must be untouched");
+  });
+});
@@ -0,0 +1,186 @@
+import * as path from "path";
+import { DirectoryEntry, FileStat, FileSystem } from "../core";
+
+interface MemoryNode {
+  kind: 'file' | 'directory' | 'symlink';
+  content: string;
+  // Absolute link target for symlinks
+  target: string;
+  mtimeMs: number;
+  birthtimeMs: number;
+  ctimeMs: number;
+  id: number;
+}
+
+// Same limit as Linux before giving up on a chain of links
+const MAX_LINK_HOPS = 40;
+
+function fsError(code: string, syscall: string, filePath: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`${code}: ${syscall} '${filePath}'`), { code, syscall, path: filePath });
+}
+
+// In-memory file system for tests, paths are absolute and use the platform separator
+// Structures follow createTestStructure: a null value creates only the parent directory
+export class MemoryFileSystem implements FileSystem {
+  private nodes = new Map<string, MemoryNode>();
+  private nextId = 1;
+
+  constructor(structure: Record<string, string | null> = {}, basePath = path.resolve('/memory')) {
+    this.mkdir(basePath);
+    for (const [relativePath, content] of Object.entries(structure)) {
+      const fullPath = path.join(basePath, relativePath);
+      this.mkdir(path.dirname(fullPath));
+      if (content !== null) {
+        this.add(fullPath, 'file', content);
+      }
+    }
+  }
+
+  // Create a directory and its missing parents
+  mkdir(dirPath: string): void {
+    const parent = path.dirname(dirPath);
+    if (parent !== dirPath) {
+      this.mkdir(parent);
+    }
+    if (!this.nodes.has(dirPath)) {
+      this.add(dirPath, 'directory', '');
+    }
+  }
+
+  symlink(target: string, linkPath: string): void {
+    this.mkdir(path.dirname(linkPath));
+    this.add(linkPath, 'symlink', '', target);
+  }
+
+  setModified(filePath: string, mtimeMs: number): void {
+    this.getNode(filePath, 'utimes').mtimeMs = mtimeMs;
+  }
+
+  // 0 stands for a file system without birthtimes
+  setBirthtime(filePath: string, birthtimeMs: number): void {
+    this.getNode(filePath, 'utimes').birthtimeMs = birthtimeMs;
+  }
+
+  exists(filePath: string): boolean {
+    return this.nodes.has(filePath);
+  }
+
+  async readDirectory(dirPath: string): Promise<DirectoryEntry[]> {
+    const resolved = this.resolve(dirPath, 'scandir');
+    if (this.getNode(resolved, 'scandir').kind !== 'directory') {
+      throw fsError('ENOTDIR', 'scandir', dirPath);
+    }
+    return this.children(resolved).map(childPath => ({
+      name: path.basename(childPath),
+      kind: this.nodes.get(childPath)!.kind
+    }));
+  }
+
+  async stat(filePath: string): Promise<FileStat> {
+    const node = this.getNode(this.resolve(filePath, 'stat'), 'stat');
+    return {
+      isDirectory: node.kind === 'directory',
+      size: node.kind === 'file' ? node.content.length : 0,
+      mtimeMs: node.mtimeMs,
+      birthtimeMs: node.birthtimeMs,
+      ctimeMs: node.ctimeMs,
+      id: `memory:${node.id}`
+    };
+  }
+
+  async realpath(filePath: string): Promise<string> {
+    const resolved = this.resolve(filePath, 'realpath');
+    this.getNode(resolved, 'realpath');
+    return resolved;
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const node = this.getNode(this.resolve(filePath, 'open'), 'open');
+    if (node.kind === 'directory') {
+      throw fsError('EISDIR', 'read', filePath);
+    }
+    return node.content;
+  }
+
+  async createFile(filePath: string, content: string): Promise<void> {
+    if (this.nodes.has(filePath)) {
+      throw fsError('EEXIST', 'open', filePath);
+    }
+    const parent = this.nodes.get(path.dirname(filePath));
+    if (!parent || parent.kind !== 'directory') {
+      throw fsError(parent ? 'ENOTDIR' : 'ENOENT', 'open', filePath);
+    }
+    this.add(filePath, 'file', content);
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    if (this.getNode(filePath, 'unlink').kind === 'directory') {
+      throw fsError('EISDIR', 'unlink', filePath);
+    }
+    this.delete(filePath);
+  }
+
+  async removeDirectory(dirPath: string): Promise<void> {
+    if (this.getNode(dirPath, 'rmdir').kind !== 'directory') {
+      throw fsError('ENOTDIR', 'rmdir', dirPath);
+    }
+    if (this.children(dirPath).length > 0) {
+      throw fsError('ENOTEMPTY', 'rmdir', dirPath);
+    }
+    this.delete(dirPath);
+  }
+
+  private add(filePath: string, kind: MemoryNode['kind'], content: string, target = ''): void {
+    const now = Date.now();
+    this.nodes.set(filePath, { kind, content, target, mtimeMs: now, birthtimeMs: now, ctimeMs: now, id: this.nextId++ });
+    this.touchParent(filePath);
+  }
+
+  private delete(filePath: string): void {
+    this.nodes.delete(filePath);
+    this.touchParent(filePath);
+  }
+
+  // Adding or removing an entry changes the directory, as on disk
+  private touchParent(filePath: string): void {
+    const parent = this.nodes.get(path.dirname(filePath));
+    if (parent && path.dirname(filePath) !== filePath) {
+      parent.mtimeMs = parent.ctimeMs = Date.now();
+    }
+  }
+
+  private getNode(filePath: string, syscall: string): MemoryNode {
+    const node = this.nodes.get(filePath);
+    if (!node) {
+      throw fsError('ENOENT', syscall, filePath);
+    }
+    return node;
+  }
+
+  private children(dirPath: string): string[] {
+    return Array.from(this.nodes.keys()).filter(key => key !== dirPath && path.dirname(key) === dirPath);
+  }
+
+  // Path with every symlink along it replaced by its target
+  private resolve(filePath: string, syscall: string): string {
+    let resolved = path.parse(filePath).root;
+    const pending = path.relative(resolved, filePath).split(path.sep).filter(Boolean);
+    let hops = 0;
+
+    while (pending.length > 0) {
+      const next = path.join(resolved, pending.shift()!);
+      const node = this.nodes.get(next);
+      if (node?.kind !== 'symlink') {
+        resolved = next;
+        continue;
+      }
+      if (++hops > MAX_LINK_HOPS) {
+        throw fsError('ELOOP', syscall, filePath);
+      }
+      const target = path.resolve(resolved, node.target);
+      resolved = path.parse(target).root;
+      pending.unshift(...path.relative(resolved, target).split(path.sep).filter(Boolean));
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,10 @@
+import { StateStorage } from "../stateStorage";
+
+// In-memory storage compatible with vscode.Memento
+export function createMemoryStorage(): StateStorage {
+  const data = new Map<string, unknown>();
+  return {
+    get: <T>(key: string) => data.get(key) as T | undefined,
+    update: async (key: string, value: unknown) => { data.set(key, value); }
+  };
+}
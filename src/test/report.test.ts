@@ -0,0 +1,110 @@
+import * as assert from "assert";
+import * as path from "path";
+import { RemovalStats, createEmptyStats } from "../core";
+import { RunReport, createFolderReports, countOutcomes, formatReport } from "../report";
+
+function createStats(overrides: Partial<RemovalStats>): RemovalStats {
+  return { ...createEmptyStats(), ...overrides };
+}
+
+describe("Run reports", () => {
+  const root = path.resolve("/workspace/app");
+
+  function createReport(): RunReport {
+    return {
+      timestamp: Date.UTC(2024, 0, 2, 3, 4, 5),
+      dryRun: true,
+      cancelled: false,
+      deleteMode: "permanent",
+      keepFilePolicy: "respect",
+      folders: createFolderReports([{
+        name: "app",
+        path: root,
+        stats: createStats({
+          totalScanned: 4,
+          totalRemoved: 1,
+          totalErrors: 1,
+          outcomes: [
+            { path: path.join(root, "src", "empty"), status: "would-remove", git: "untracked" },
+            { path: path.join(root, "node_modules"), status: "excluded" },
+            { path: path.join(root, "locked"), status: "error", code: "EACCES", message: "permission denied, \"locked\"" }
+          ]
+        })
+      }])
+    };
+  }
+
+  describe("createFolderReports", () => {
+    it("should group targets by workspace folder with relative paths", () => {
+      const reports = createFolderReports([
+        { name: "app", path: root, stats: createStats({ totalScanned: 2, totalRemoved: 1, outcomes: [{ path: path.join(root, "b"), status: "removed" }] }) },
+        { name: "app", path: root, stats: createStats({ totalScanned: 3, outcomes: [{ path: path.join(root, "a"), status: "protected" }] }) }
+      ]);
+
+      assert.strictEqual(reports.length, 1);
+      assert.strictEqual(reports[0].scanned, 5);
+      assert.strictEqual(reports[0].removed, 1);
+      assert.deepStrictEqual(reports[0].outcomes, [
+        { path: "a", status: "protected" },
+        { path: "b", status: "removed" }
+      ]);
+    });
+
+    it("should report the workspace folder itself as .", () => {
+      const reports = createFolderReports([
+        { name: "app", path: root, stats: createStats({ outcomes: [{ path: root, status: "protected" }] }) }
+      ]);
+
+      assert.strictEqual(reports[0].outcomes[0].path, ".");
+    });
+  });
+
+  describe("countOutcomes", () => {
+    it("should count outcomes per status", () => {
+      const counts = countOutcomes([
+        { path: "a", status: "removed" },
+        { path: "b", status: "excluded" },
+        { path: "c", status: "removed" }
+      ]);
+
+      assert.deepStrictEqual(Array.from(counts), [["removed", 2], ["excluded", 1]]);
+    });
+  });
+
+  describe("formatReport", () => {
+    it("should write JSON that parses back to the report", () => {
+      const report = createReport();
+      assert.deepStrictEqual(JSON.parse(formatReport(report, "json")), report);
+    });
+
+    it("should write a Markdown section per workspace folder", () => {
+      const markdown = formatReport(createReport(), "markdown");
+
+      assert.ok(markdown.startsWith("# Empty Folders Report\n"));
+      assert.ok(markdown.includes("- Date: 2024-01-02T03:04:05.000Z"));
+      assert.ok(markdown.includes("- Mode: permanent (dry run)"));
+      assert.ok(markdown.includes("## app"));
+      assert.ok(markdown.includes("Outcomes: error: 1, excluded: 1, would-remove: 1"));
+      assert.ok(markdown.includes("| `src/empty` | would-remove | untracked |  |  |"));
+      assert.ok(markdown.includes("| `locked` | error |  | EACCES | permission denied, \"locked\" |"));
+    });
+
+    it("should escape pipes in Markdown cells", () => {
+      const report = createReport();
+      report.folders[0].outcomes = [{ path: "a|b", status: "removed" }];
+
+      assert.ok(formatReport(report, "markdown").includes("| `a\\|b` | removed |"));
+    });
+
+    it("should write one CSV row per outcome with quoted fields", () => {
+      const csv = formatReport(createReport(), "csv");
+
+      assert.deepStrictEqual(csv.trimEnd().split("\n"), [
+        "workspaceFolder,path,status,git,code,message",
+        "app,locked,error,,EACCES,\"permission denied, \"\"locked\"\"\"",
+        "app,node_modules,excluded,,,",
+        "app,src/empty,would-remove,untracked,,"
+      ]);
+    });
+  });
+});
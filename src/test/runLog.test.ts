@@ -0,0 +1,98 @@
+import * as assert from "assert";
+import * as path from "path";
+import { Logger, logFolderEvent, logRunSummary } from "../runLog";
+import { RunReport } from "../report";
+
+// Logger that records every call as [level, message]
+function createLogger(): Logger & { entries: [string, string][] } {
+  const entries: [string, string][] = [];
+  const record = (level: string) => (message: string) => {
+    entries.push([level, message]);
+  };
+  return {
+    entries,
+    trace: record("trace"),
+    debug: record("debug"),
+    info: record("info"),
+    warn: record("warn"),
+    error: record("error")
+  };
+}
+
+describe("Run log", () => {
+  const root = path.resolve("/workspace/app");
+
+  describe("logFolderEvent", () => {
+    it("should log changes at info level with the full path and workspace folder", () => {
+      const logger = createLogger();
+      const junkFile = path.join(root, "empty", ".DS_Store");
+      logFolderEvent(logger, "app", {
+        path: path.join(root, "empty"),
+        status: "removed",
+        deleteMode: "trash",
+        junkFiles: [junkFile]
+      });
+
+      assert.deepStrictEqual(logger.entries, [
+        ["info", `removed ${path.join(root, "empty")} (workspace: app, mode: trash)`],
+        ["trace", `deleted junk file ${junkFile}`]
+      ]);
+    });
+
+    it("should log errors with their code and skipped folders at debug level with their git status", () => {
+      const logger = createLogger();
+      logFolderEvent(logger, "app", { path: root, status: "protected" });
+      logFolderEvent(logger, "app", {
+        path: path.join(root, "locked"),
+        status: "error",
+        code: "EACCES",
+        message: "permission denied"
+      });
+
+      logFolderEvent(logger, "app", { path: path.join(root, "assets"), status: "kept-git", git: "tracked" });
+
+      assert.deepStrictEqual(logger.entries, [
+        ["debug", `protected ${root} (workspace: app)`],
+        ["error", `error ${path.join(root, "locked")} (workspace: app, code: EACCES): permission denied`],
+        ["debug", `kept-git ${path.join(root, "assets")} (workspace: app, git: tracked)`]
+      ]);
+    });
+
+    it("should warn when the configured delete mode wasn't available", () => {
+      const logger = createLogger();
+      logFolderEvent(logger, "app", { path: root, status: "removed", deleteMode: "permanent", fallback: true });
+
+      assert.strictEqual(logger.entries[0][0], "warn");
+    });
+  });
+
+  describe("logRunSummary", () => {
+    it("should log the run and each workspace folder", () => {
+      const report: RunReport = {
+        timestamp: 0,
+        dryRun: true,
+        cancelled: false,
+        deleteMode: "permanent",
+        keepFilePolicy: "respect",
+        folders: [
+          { name: "app", path: root, scanned: 5, removed: 2, errors: 0, outcomes: [
+            { path: "a", status: "would-remove" },
+            { path: "b", status: "would-remove" }
+          ] },
+          { name: "lib", path: path.resolve("/workspace/lib"), scanned: 3, removed: 0, errors: 1, outcomes: [
+            { path: "c", status: "error", code: "EPERM" }
+          ] }
+        ]
+      };
+
+      const logger = createLogger();
+      logRunSummary(logger, report, 2400);
+
+      assert.deepStrictEqual(logger.entries, [
+        ["info", "Run finished after 2s (permanent (dry run)): 2 removed, 1 error"],
+        ["info", "  app: scanned 5, would-remove: 2"],
+        ["warn", "  lib: scanned 3, error: 1"]
+      ]);
+    });
+  });
+});
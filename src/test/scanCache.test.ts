@@ -0,0 +1,96 @@
+import * as assert from "assert";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { createDefaultConfig } from "../core";
+import { DirectoryCache, ScanCacheStore, createCacheFingerprint } from "../scanCache";
+
+describe("DirectoryCache", () => {
+  const root = path.resolve("/workspace");
+  const readAt = 10_000;
+
+  it("should return listings only while the mtime is unchanged", () => {
+    const cache = new DirectoryCache("fp");
+    cache.set(root, 1000, { subdirectories: ["a"], symlinks: [], hasFiles: false, hasGitignore: false, hasRcFile: false }, readAt);
+
+    assert.deepStrictEqual(cache.get(root, 1000)?.subdirectories, ["a"]);
+    assert.strictEqual(cache.get(root, 2000), undefined);
+    assert.ok(cache.isDirty);
+  });
+
+  it("should not cache directories modified right before they were read", () => {
+    const cache = new DirectoryCache("fp");
+    cache.set(root, readAt - 500, { subdirectories: [], symlinks: [], hasFiles: true, hasGitignore: false, hasRcFile: false }, readAt);
+
+    assert.strictEqual(cache.get(root, readAt - 500), undefined);
+    assert.strictEqual(cache.size, 0);
+  });
+
+  it("should drop the subtree of removed subdirectories", () => {
+    const cache = new DirectoryCache("fp");
+    cache.set(root, 1000, { subdirectories: ["a", "b"], symlinks: [], hasFiles: false, hasGitignore: false, hasRcFile: false }, readAt);
+    cache.set(path.join(root, "a"), 1000, { subdirectories: ["c"], symlinks: [], hasFiles: false, hasGitignore: false, hasRcFile: false }, readAt);
+    cache.set(path.join(root, "a", "c"), 1000, { subdirectories: [], symlinks: [], hasFiles: false, hasGitignore: false, hasRcFile: false }, readAt);
+    cache.set(path.join(root, "b"), 1000, { subdirectories: [], symlinks: [], hasFiles: true, hasGitignore: false, hasRcFile: false }, readAt);
+
+    cache.set(root, 2000, { subdirectories: ["b"], symlinks: [], hasFiles: false, hasGitignore: false, hasRcFile: false }, readAt);
+
+    assert.strictEqual(cache.size, 2);
+    assert.strictEqual(cache.get(path.join(root, "a", "c"), 1000), undefined);
+    assert.ok(cache.get(path.join(root, "b"), 1000));
+  });
+
+  describe("persistence", () => {
+    let tempDir: string;
+    let cacheFile: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "efr-test-"));
+      cacheFile = path.join(tempDir, "storage", "scan-cache.json");
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it("should round-trip through a cache file", async () => {
+      const cache = new DirectoryCache("fp");
+      cache.set(root, 1000, { subdirectories: ["a"], symlinks: [], hasFiles: true, hasGitignore: true, hasRcFile: false }, readAt);
+      await cache.save(cacheFile);
+      assert.ok(!cache.isDirty);
+
+      const loaded = await DirectoryCache.load(cacheFile, "fp");
+      assert.deepStrictEqual(loaded.get(root, 1000), { mtimeMs: 1000, subdirectories: ["a"], symlinks: [], hasFiles: true, hasGitignore: true, hasRcFile: false });
+    });
+
+    it("should start empty when the fingerprint differs or the file is unreadable", async () => {
+      const cache = new DirectoryCache("fp");
+      cache.set(root, 1000, { subdirectories: [], symlinks: [], hasFiles: false, hasGitignore: false, hasRcFile: false }, readAt);
+      await cache.save(cacheFile);
+
+      assert.strictEqual((await DirectoryCache.load(cacheFile, "other")).size, 0);
+
+      await fs.writeFile(cacheFile, "{not json");
+      assert.strictEqual((await DirectoryCache.load(cacheFile, "fp")).size, 0);
+      assert.strictEqual((await DirectoryCache.load(path.join(tempDir, "missing.json"), "fp")).size, 0);
+    });
+
+    it("should reload when junk file settings change and delete the file when cleared", async () => {
+      const store = new ScanCacheStore(cacheFile);
+      const config = createDefaultConfig();
+
+      const cache = await store.get(config);
+      cache.set(root, 1000, { subdirectories: [], symlinks: [], hasFiles: false, hasGitignore: false, hasRcFile: false }, readAt);
+      await store.save();
+      assert.strictEqual(await store.get(config), cache);
+
+      const pruning = createDefaultConfig({ keepFilePolicy: "prune" });
+      assert.notStrictEqual(createCacheFingerprint(pruning), createCacheFingerprint(config));
+      assert.strictEqual((await store.get(pruning)).size, 0);
+
+      await store.clear();
+      await assert.rejects(fs.access(cacheFile));
+      assert.strictEqual((await store.get(config)).size, 0);
+    });
+  });
+});
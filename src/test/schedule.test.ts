@@ -0,0 +1,32 @@
+import * as assert from "assert";
+import { ScheduleState } from "../schedule";
+import { createMemoryStorage } from "./memoryStorage";
+
+describe("ScheduleState", () => {
+  const hour = 60 * 60 * 1000;
+  const now = Date.UTC(2026, 0, 1);
+
+  it("should be due when it never ran", () => {
+    const state = new ScheduleState(createMemoryStorage());
+
+    assert.strictEqual(state.getLastRun(), undefined);
+    assert.ok(state.isDue(24, now));
+  });
+
+  it("should wait for the interval after the last run", async () => {
+    const state = new ScheduleState(createMemoryStorage());
+    await state.recordRun(now);
+
+    assert.strictEqual(state.getLastRun(), now);
+    assert.strictEqual(state.getRemainingMs(24, now + hour), 23 * hour);
+    assert.ok(!state.isDue(24, now + 23 * hour));
+    assert.ok(state.isDue(24, now + 24 * hour));
+  });
+
+  it("should keep the last run across instances sharing the storage", async () => {
+    const storage = createMemoryStorage();
+    await new ScheduleState(storage).recordRun(now);
+
+    assert.ok(!new ScheduleState(storage).isDue(1, now + hour / 2));
+  });
+});
@@ -0,0 +1,86 @@
+import * as vscode from "vscode";
+import { DirectoryEntry, FileStat, FileSystem, nodeFileSystem } from "./core";
+
+// Errno codes for vscode.FileSystemError codes, so core code handles both file systems alike
+const ERRNO_CODES: Record<string, string> = {
+  FileNotFound: 'ENOENT',
+  FileExists: 'EEXIST',
+  FileNotADirectory: 'ENOTDIR',
+  FileIsADirectory: 'EISDIR',
+  NoPermissions: 'EACCES',
+  Unavailable: 'EAGAIN'
+};
+
+async function withErrnoCode<T>(operation: Thenable<T>): Promise<T> {
+  try {
+    return await operation;
+  } catch (error) {
+    const code = error instanceof vscode.FileSystemError ? ERRNO_CODES[error.code] : undefined;
+    if (code) {
+      throw Object.assign(new Error(error instanceof Error ? error.message : String(error)), { code });
+    }
+    throw error;
+  }
+}
+
+// URI of a path inside a workspace folder, keeping the folder's scheme and authority
+export function toWorkspaceUri(folder: vscode.WorkspaceFolder, filePath: string): vscode.Uri {
+  if (folder.uri.scheme === 'file') {
+    return vscode.Uri.file(filePath);
+  }
+  return folder.uri.with({ path: vscode.Uri.file(filePath).path });
+}
+
+// File system of a virtual or remote workspace folder through vscode.workspace.fs
+// Paths are the folder's fsPath and below, as with folders on disk
+export function createWorkspaceFileSystem(folder: vscode.WorkspaceFolder): FileSystem {
+  const workspaceFs = vscode.workspace.fs;
+  const toUri = (filePath: string) => toWorkspaceUri(folder, filePath);
+
+  return {
+    async readDirectory(dirPath: string): Promise<DirectoryEntry[]> {
+      const entries = await withErrnoCode(workspaceFs.readDirectory(toUri(dirPath)));
+      return entries.map(([name, type]) => ({
+        name,
+        kind: type & vscode.FileType.SymbolicLink ? 'symlink' : type & vscode.FileType.Directory ? 'directory' : 'file'
+      }));
+    },
+    async stat(filePath: string): Promise<FileStat> {
+      // There are no device and inode numbers, so links are never followed
+      const stat = await withErrnoCode(workspaceFs.stat(toUri(filePath)));
+      return {
+        isDirectory: (stat.type & vscode.FileType.Directory) !== 0,
+        size: stat.size,
+        mtimeMs: stat.mtime,
+        birthtimeMs: stat.ctime,
+        // There is no status change time, the last change is the closest
+        ctimeMs: stat.mtime
+      };
+    },
+    async realpath(filePath: string): Promise<string> {
+      return filePath;
+    },
+    async readFile(filePath: string): Promise<string> {
+      return Buffer.from(await withErrnoCode(workspaceFs.readFile(toUri(filePath)))).toString('utf8');
+    },
+    async createFile(filePath: string, content: string): Promise<void> {
+      // workspace.fs can't create a file exclusively, so check first
+      const uri = toUri(filePath);
+      if (await workspaceFs.stat(uri).then(() => true, () => false)) {
+        throw Object.assign(new Error(`File already exists: ${filePath}`), { code: 'EEXIST' });
+      }
+      await withErrnoCode(workspaceFs.writeFile(uri, Buffer.from(content, 'utf8')));
+    },
+    async deleteFile(filePath: string): Promise<void> {
+      await withErrnoCode(workspaceFs.delete(toUri(filePath), { recursive: false, useTrash: false }));
+    },
+    async removeDirectory(dirPath: string): Promise<void> {
+      await withErrnoCode(workspaceFs.delete(toUri(dirPath), { recursive: false, useTrash: false }));
+    }
+  };
+}
+
+// Node's fs for folders on disk, vscode.workspace.fs for other schemes
+export function getFileSystem(folder: vscode.WorkspaceFolder): FileSystem {
+  return folder.uri.scheme === 'file' ? nodeFileSystem : createWorkspaceFileSystem(folder);
+}